@@ -1,13 +1,21 @@
 
 
-import React, { useReducer, useCallback, useEffect } from 'react';
-import type { RepoTreeNode, RepoFileWithContent, RepoTreeFolder, AnalysisTask } from './types';
-import { fetchRepoRoot, fetchFolderContents, streamAllFilePaths, parseGitHubUrl } from './services/githubService';
-import { analyzeRepositoryStream } from './services/geminiService';
+import React, { useReducer, useCallback, useEffect, useRef, useState, useMemo } from 'react';
+import type { AnalysisLimits, RepoTreeNode, RepoFileWithContent, RepoTreeFolder, AnalysisTask, AnalysisTaskResult, AnalysisCoverage, RepoAnalysisStreamEvent, JobSummary, AnalysisTaskDefinition, RepoRulesInfo, GitHost, GitTokenStatus, RepoRefs, RepoSource, PullRequest, PullRequestFile, Comparison } from './types';
+import { fetchRepoRoot, fetchFolderContents, fetchRepoFile, fetchRepoTree, fetchRepoRefs, resolveRepoCommit, streamAllFilePaths, parseRepoUrl, splitRefPath, BUILTIN_GIT_HOSTS, fetchGitHosts, getGitTokenStatus, saveGitToken, removeGitToken, fetchPullRequest, fetchComparison, fetchChangedFile, buildTreeFromPaths, estimateAnalysisRequests } from './services/gitService';
+import { getRateLimit } from './services/rateLimit';
+import { purgeHostCache } from './services/repoCache';
+import { analyzeRepositoryStream, fetchAnalysisTasks, fetchRepoRules } from './services/geminiService';
+import { followJobEvents, cancelJob } from './services/jobService';
 import { RepoInput } from './components/RepoInput';
 import { FileBrowser } from './components/FileBrowser';
 import { CodeReviewer } from './components/CodeReviewer';
 import { RepoAnalyzer } from './components/RepoAnalyzer';
+import { JobList } from './components/JobList';
+import { SessionControl } from './components/SessionControl';
+import { CacheControl } from './components/CacheControl';
+import { RateLimitStatus } from './components/RateLimitStatus';
+import { AnalysisTaskPicker } from './components/AnalysisTaskPicker';
 import { Spinner } from './components/Spinner';
 import { GithubIcon } from './components/icons/GithubIcon';
 import { InfoIcon } from './components/icons/InfoIcon';
@@ -16,11 +24,21 @@ import { ErrorBoundary } from './components/ErrorBoundary';
 type AppState = {
   status: 'idle' | 'loading_repo' | 'repo_loaded' | 'fetching_files' | 'reviewing_files' | 'analyzing_repo' | 'error';
   repoUrl: string;
-  githubToken: string;
+  repoRefs: RepoRefs | null; // Branches and tags for the ref picker; null until loaded or when they could not be listed
+  repoRef: string | null; // Branch, tag or commit being browsed; null for the default branch
   repoTree: RepoTreeNode[];
+  pullRequest: PullRequest | null; // Set when repoUrl is a pull request; repoTree then holds the files it changes
+  compareBase: string | null; // Ref that repoRef is compared with; null when browsing
+  comparison: Comparison | null; // Set while comparing; repoTree then holds the files changed since compareBase
+  repoRules: RepoRulesInfo | null; // The repository's .codereview.yml, loaded after the tree
   selectedFilePaths: Set<string>;
+  revealedFilePath: string | null; // File the FileBrowser should expand to and highlight
   filesForReview: RepoFileWithContent[] | null;
+  reviewSource: RepoSource | null; // Commit the files for review were read at
+  analysisRepoUrl: string; // Repository of the analysis being shown, which may be an older job
   analysisTasks: AnalysisTask[];
+  analysisSource: RepoSource | null; // Commit the analysis read, as reported by the server
+  analysisCoverage: AnalysisCoverage | null;
   // This now holds file content only when needed for the UI (e.g. snippets), not for sending to backend.
   allFilesWithContent: Map<string, string>;
   currentlyProcessingFile: string | null;
@@ -30,24 +48,35 @@ type AppState = {
 
 type AppAction =
   | { type: 'SET_REPO_URL'; payload: string }
-  | { type: 'SET_GITHUB_TOKEN'; payload: string }
+  | { type: 'SET_REPO_REFS'; payload: { refs: RepoRefs | null; ref: string | null } }
+  | { type: 'SELECT_REPO_REF'; payload: string | null }
   | { type: 'FETCH_REPO_START' }
   | { type: 'FETCH_REPO_SUCCESS'; payload: RepoTreeNode[] }
   | { type: 'FETCH_REPO_FAILURE'; payload: string }
+  | { type: 'FETCH_PULL_REQUEST_SUCCESS'; payload: PullRequest }
+  | { type: 'SELECT_COMPARE_BASE'; payload: string | null }
+  | { type: 'FETCH_COMPARISON_SUCCESS'; payload: Comparison }
+  | { type: 'SET_REPO_RULES'; payload: { repoUrl: string; ref: string | null; info: RepoRulesInfo } }
   | { type: 'EXPAND_FOLDER_SUCCESS'; payload: { folderPath: string; children: RepoTreeNode[] } }
   | { type: 'TOGGLE_FILE_SELECTION'; payload: string }
   | { type: 'SET_ALL_FILES_SELECTED'; payload: { nodes: RepoTreeNode[]; select: boolean } }
   | { type: 'CLEAR_SELECTION' }
+  | { type: 'REVEAL_FILE'; payload: string }
   | { type: 'START_FILE_REVIEW' }
-  | { type: 'FETCH_REVIEW_FILES_SUCCESS'; payload: RepoFileWithContent[] }
+  | { type: 'FETCH_REVIEW_FILES_SUCCESS'; payload: { files: RepoFileWithContent[]; source: RepoSource } }
   | { type: 'FETCH_REVIEW_FILES_FAILURE'; payload: string }
-  | { type: 'START_REPO_ANALYSIS' }
+  | { type: 'START_REPO_ANALYSIS'; payload: string }
   | { type: 'REPO_ANALYSIS_PROCESSING_FILE'; payload: { path: string, content: string } }
   | { type: 'REPO_ANALYSIS_SYSTEM_EVENT', payload: string }
+  | { type: 'REPO_ANALYSIS_SOURCE', payload: RepoSource }
+  | { type: 'REPO_ANALYSIS_COVERAGE', payload: AnalysisCoverage }
+  | { type: 'REPO_ANALYSIS_TASK_QUEUED', payload: { id: string, title: string } }
   | { type: 'REPO_ANALYSIS_TASK_START', payload: { id: string, title: string } }
   | { type: 'REPO_ANALYSIS_TASK_CHUNK', payload: { id: string, chunk: string } }
+  | { type: 'REPO_ANALYSIS_TASK_RESULT', payload: { id: string, result: AnalysisTaskResult } }
   | { type: 'REPO_ANALYSIS_TASK_END', payload: { id: string, error?: string } }
   | { type: 'REPO_ANALYSIS_COMPLETE' }
+  | { type: 'REPO_ANALYSIS_CANCELLED' }
   | { type: 'REPO_ANALYSIS_FAILURE'; payload: string }
   | { type: 'ADD_LOG'; payload: string }
   | { type: 'CLEAR_LOGS' }
@@ -56,11 +85,21 @@ type AppAction =
 const initialState: AppState = {
   status: 'idle',
   repoUrl: 'https://github.com/google/generative-ai-docs',
-  githubToken: '',
+  repoRefs: null,
+  repoRef: null,
   repoTree: [],
+  pullRequest: null,
+  compareBase: null,
+  comparison: null,
+  repoRules: null,
   selectedFilePaths: new Set(),
+  revealedFilePath: null,
   filesForReview: null,
+  reviewSource: null,
+  analysisRepoUrl: '',
   analysisTasks: [],
+  analysisSource: null,
+  analysisCoverage: null,
   allFilesWithContent: new Map(),
   currentlyProcessingFile: null,
   logs: [],
@@ -77,18 +116,52 @@ const getAllFilePathsFromTree = (nodes: RepoTreeNode[]): string[] => {
   return paths;
 };
 
+// Deleted and binary files have no content left to review.
+const isReviewable = (file: PullRequestFile) => file.status !== 'deleted' && !file.binary;
+
 const appReducer = (state: AppState, action: AppAction): AppState => {
   switch (action.type) {
     case 'SET_REPO_URL':
-      return { ...state, repoUrl: action.payload };
-    case 'SET_GITHUB_TOKEN':
-      return { ...state, githubToken: action.payload };
+      // A new URL starts from its own ref (see handleFetchFiles).
+      return { ...state, repoUrl: action.payload, repoRefs: null, repoRef: null, compareBase: null };
+    case 'SET_REPO_REFS':
+      return { ...state, repoRefs: action.payload.refs, repoRef: action.payload.ref };
+    case 'SELECT_REPO_REF':
+      return { ...state, repoRef: action.payload };
     case 'FETCH_REPO_START':
-      return { ...initialState, repoUrl: state.repoUrl, githubToken: state.githubToken, status: 'loading_repo', logs: [] };
+      return { ...initialState, repoUrl: state.repoUrl, repoRefs: state.repoRefs, repoRef: state.repoRef, compareBase: state.compareBase, status: 'loading_repo', logs: [] };
     case 'FETCH_REPO_SUCCESS':
       return { ...state, status: 'repo_loaded', repoTree: action.payload, error: action.payload.length === 0 ? 'No files found in this repository.' : null };
     case 'FETCH_REPO_FAILURE':
       return { ...state, status: 'error', error: action.payload, repoTree: [] };
+    case 'FETCH_PULL_REQUEST_SUCCESS': {
+      // Every reviewable change is preselected.
+      const paths = action.payload.files.filter(isReviewable).map(file => file.path);
+      return {
+        ...state,
+        status: 'repo_loaded',
+        pullRequest: action.payload,
+        repoTree: buildTreeFromPaths(paths),
+        selectedFilePaths: new Set(paths),
+        error: paths.length === 0 ? 'This pull request changes no files that can be reviewed.' : null,
+      };
+    }
+    case 'SELECT_COMPARE_BASE':
+      return { ...state, compareBase: action.payload };
+    case 'FETCH_COMPARISON_SUCCESS': {
+      const paths = action.payload.files.filter(isReviewable).map(file => file.path);
+      return {
+        ...state,
+        status: 'repo_loaded',
+        comparison: action.payload,
+        repoTree: buildTreeFromPaths(paths),
+        selectedFilePaths: new Set(paths),
+        error: paths.length === 0 ? 'No files that can be reviewed changed between these refs.' : null,
+      };
+    }
+    case 'SET_REPO_RULES':
+      // Rules of a repository (or ref) the user has since navigated away from are dropped.
+      return action.payload.repoUrl === state.repoUrl && action.payload.ref === state.repoRef ? { ...state, repoRules: action.payload.info } : state;
     case 'EXPAND_FOLDER_SUCCESS': {
       const newTree = JSON.parse(JSON.stringify(state.repoTree));
       const findAndInject = (nodes: RepoTreeNode[]) => {
@@ -121,14 +194,16 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
     }
     case 'CLEAR_SELECTION':
       return { ...state, selectedFilePaths: new Set() };
+    case 'REVEAL_FILE':
+      return { ...state, revealedFilePath: action.payload, selectedFilePaths: new Set(state.selectedFilePaths).add(action.payload) };
     case 'START_FILE_REVIEW':
       return { ...state, status: 'fetching_files', error: null };
     case 'FETCH_REVIEW_FILES_SUCCESS':
-      return { ...state, status: 'reviewing_files', filesForReview: action.payload, selectedFilePaths: new Set() };
+      return { ...state, status: 'reviewing_files', filesForReview: action.payload.files, reviewSource: action.payload.source, selectedFilePaths: new Set() };
     case 'FETCH_REVIEW_FILES_FAILURE':
       return { ...state, status: 'error', error: action.payload };
     case 'START_REPO_ANALYSIS':
-      return { ...state, status: 'analyzing_repo', analysisTasks: [], allFilesWithContent: new Map(), error: null, logs: [], currentlyProcessingFile: null };
+      return { ...state, status: 'analyzing_repo', analysisRepoUrl: action.payload, analysisTasks: [], analysisSource: null, analysisCoverage: null, allFilesWithContent: new Map(), error: null, logs: [], currentlyProcessingFile: null };
     case 'REPO_ANALYSIS_PROCESSING_FILE': {
         const newFileMap = new Map(state.allFilesWithContent);
         newFileMap.set(action.payload.path, action.payload.content);
@@ -136,14 +211,34 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
     }
     case 'REPO_ANALYSIS_SYSTEM_EVENT':
         return { ...state, logs: [...state.logs, `[SYSTEM] ${action.payload}`] };
-    case 'REPO_ANALYSIS_TASK_START':
-        return { ...state, analysisTasks: [...state.analysisTasks, { id: action.payload.id, title: action.payload.title, status: 'in_progress', content: '', error: null }]};
+    case 'REPO_ANALYSIS_SOURCE':
+        return { ...state, analysisSource: action.payload };
+    case 'REPO_ANALYSIS_COVERAGE':
+        return { ...state, analysisCoverage: action.payload };
+    case 'REPO_ANALYSIS_TASK_QUEUED':
+        return { ...state, analysisTasks: [...state.analysisTasks, { id: action.payload.id, title: action.payload.title, status: 'pending', content: '', error: null }]};
+    case 'REPO_ANALYSIS_TASK_START': {
+        // Tasks are normally queued first so the list keeps its order while they run concurrently.
+        if (!state.analysisTasks.some(task => task.id === action.payload.id)) {
+            return { ...state, analysisTasks: [...state.analysisTasks, { id: action.payload.id, title: action.payload.title, status: 'in_progress', content: '', error: null }]};
+        }
+        const newTasks = state.analysisTasks.map(task =>
+            task.id === action.payload.id ? { ...task, status: 'in_progress' as const } : task
+        );
+        return { ...state, analysisTasks: newTasks };
+    }
     case 'REPO_ANALYSIS_TASK_CHUNK': {
         const newTasks = state.analysisTasks.map(task => 
             task.id === action.payload.id ? { ...task, content: task.content + action.payload.chunk } : task
         );
         return { ...state, analysisTasks: newTasks };
     }
+    case 'REPO_ANALYSIS_TASK_RESULT': {
+        const newTasks = state.analysisTasks.map(task => 
+            task.id === action.payload.id ? { ...task, result: action.payload.result } : task
+        );
+        return { ...state, analysisTasks: newTasks };
+    }
     case 'REPO_ANALYSIS_TASK_END': {
         const newTasks = state.analysisTasks.map(task => {
             if (task.id !== action.payload.id) {
@@ -158,8 +253,20 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
         });
         return { ...state, analysisTasks: newTasks };
     }
-    case 'REPO_ANALYSIS_COMPLETE':
-      return { ...state, status: 'repo_loaded', currentlyProcessingFile: null };
+    case 'REPO_ANALYSIS_COMPLETE': {
+        // A job that was cancelled or interrupted on the server ends its stream with tasks still open.
+        const newTasks = state.analysisTasks.map(task =>
+            task.status === 'in_progress' || task.status === 'pending' ? { ...task, status: 'error' as const, error: 'Did not finish.' } : task
+        );
+        return { ...state, status: 'repo_loaded', analysisTasks: newTasks, currentlyProcessingFile: null };
+    }
+    case 'REPO_ANALYSIS_CANCELLED': {
+        // Keep partial results; tasks that never finished are marked as cancelled.
+        const newTasks = state.analysisTasks.map(task =>
+            task.status === 'in_progress' || task.status === 'pending' ? { ...task, status: 'error' as const, error: 'Cancelled.' } : task
+        );
+        return { ...state, status: 'repo_loaded', analysisTasks: newTasks, currentlyProcessingFile: null };
+    }
     case 'REPO_ANALYSIS_FAILURE':
       return { ...state, status: 'repo_loaded', error: action.payload, analysisTasks: state.analysisTasks }; // Keep partial results on failure
     case 'ADD_LOG':
@@ -169,7 +276,7 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
     case 'CLEAR_LOGS':
         return { ...state, logs: [] };
     case 'RESET':
-        return { ...initialState, repoUrl: state.repoUrl, githubToken: state.githubToken, logs: [] };
+        return { ...initialState, repoUrl: state.repoUrl, repoRefs: state.repoRefs, repoRef: state.repoRef, compareBase: state.compareBase, logs: [] };
     default:
       return state;
   }
@@ -177,23 +284,103 @@ const appReducer = (state: AppState, action: AppAction): AppState => {
 
 export default function App(): React.ReactElement {
   const [state, dispatch] = useReducer(appReducer, initialState);
-  const { status, repoUrl, githubToken, repoTree, selectedFilePaths, filesForReview, analysisTasks, allFilesWithContent, currentlyProcessingFile, logs, error } = state;
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const analysisJobIdRef = useRef<string | null>(null); // Server job of the analysis being shown
+  const [jobsRefreshKey, setJobsRefreshKey] = useState(0);
+  const [sessionVersion, setSessionVersion] = useState(0); // Bumped on sign-in and sign-out
+  const [gitHosts, setGitHosts] = useState<GitHost[]>(BUILTIN_GIT_HOSTS); // Replaced by the server's list once loaded
+  const [gitTokenStatus, setGitTokenStatus] = useState<GitTokenStatus | null>(null);
+  const [analysisTaskDefinitions, setAnalysisTaskDefinitions] = useState<AnalysisTaskDefinition[]>([]);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const [analysisLimits, setAnalysisLimits] = useState<AnalysisLimits | null>(null);
+  const { status, repoUrl, repoRefs, repoRef, repoTree, pullRequest, compareBase, comparison, repoRules, selectedFilePaths, revealedFilePath, filesForReview, reviewSource, analysisRepoUrl, analysisTasks, analysisSource, analysisCoverage, allFilesWithContent, currentlyProcessingFile, logs, error } = state;
+  const repoLocation = useMemo(() => parseRepoUrl(repoUrl, gitHosts), [repoUrl, gitHosts]);
+  const repoHost = repoLocation?.host ?? null;
+
+  // Reads the repository's rules at `revision` for the repository being browsed at `ref`.
+  // A broken rules file is shown next to the explorer but does not stop reviews or analyses.
+  const loadRepoRules = useCallback(async (urlToFetch: string, ref: string | null, revision: string | null) => {
+    try {
+      const info = await fetchRepoRules(urlToFetch, revision);
+      dispatch({ type: 'SET_REPO_RULES', payload: { repoUrl: urlToFetch, ref, info } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+      dispatch({ type: 'SET_REPO_RULES', payload: { repoUrl: urlToFetch, ref, info: { source: null, rules: null, error: message } } });
+    }
+  }, []);
 
-  const handleFetchFiles = useCallback(async (urlToFetch: string) => {
-    if (!parseGitHubUrl(urlToFetch)) {
-        dispatch({ type: 'FETCH_REPO_FAILURE', payload: 'Please enter a valid GitHub repository URL.' });
+  // Loads the repository at `ref`. For a new URL (`ref` undefined) the branches and tags are listed first, and
+  // the ref of a /tree/<ref>/... URL is picked from them; plain URLs start on the default branch.
+  // A pull request URL loads the pull request instead, and its changed files take the place of the tree; so do the
+  // files changed since `compareBase` when comparing refs.
+  const handleFetchFiles = useCallback(async (urlToFetch: string, ref?: string | null, compareWith: string | null = null) => {
+    const location = parseRepoUrl(urlToFetch, gitHosts);
+    if (!location) {
+        const hosts = gitHosts.map(({ host }) => host).join(', ');
+        dispatch({ type: 'FETCH_REPO_FAILURE', payload: `Please enter a valid repository URL on one of these hosts: ${hosts}.` });
         return;
     }
     
     dispatch({ type: 'FETCH_REPO_START' });
+    if (location.pullNumber !== null) {
+      let pull: PullRequest;
+      try {
+        pull = await fetchPullRequest(urlToFetch, location.pullNumber);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+        dispatch({ type: 'FETCH_REPO_FAILURE', payload: message });
+        return;
+      }
+      dispatch({ type: 'FETCH_PULL_REQUEST_SUCCESS', payload: pull });
+      // The rules come from the head commit, so a pull request can change them along with the code.
+      await loadRepoRules(urlToFetch, null, pull.headCommit);
+      return;
+    }
+    if (ref === undefined) {
+      let refs: RepoRefs | null = null;
+      try {
+        refs = await fetchRepoRefs(urlToFetch);
+      } catch (err) {
+        // Without the list, the picker still accepts typed refs.
+        console.error('Failed to list branches and tags:', err);
+      }
+      ref = location.refPath ? splitRefPath(location.refPath, refs ? [...refs.branches, ...refs.tags] : []).ref : null;
+      dispatch({ type: 'SET_REPO_REFS', payload: { refs, ref } });
+    }
+    if (compareWith) {
+      let compared: Comparison;
+      try {
+        compared = await fetchComparison(urlToFetch, compareWith, ref);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+        dispatch({ type: 'FETCH_REPO_FAILURE', payload: message });
+        return;
+      }
+      dispatch({ type: 'FETCH_COMPARISON_SUCCESS', payload: compared });
+      await loadRepoRules(urlToFetch, ref, compared.headCommit);
+      return;
+    }
     try {
-      const fetchedTree = await fetchRepoRoot(urlToFetch, githubToken);
+      const fetchedTree = await fetchRepoRoot(urlToFetch, ref);
       dispatch({ type: 'FETCH_REPO_SUCCESS', payload: fetchedTree });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An unknown error occurred.';
       dispatch({ type: 'FETCH_REPO_FAILURE', payload: message });
+      return;
     }
-  }, [githubToken]);
+    await loadRepoRules(urlToFetch, ref, ref);
+  }, [gitHosts, loadRepoRules]);
+
+  const handleSelectRef = useCallback((ref: string | null) => {
+    dispatch({ type: 'SELECT_REPO_REF', payload: ref });
+    handleFetchFiles(repoUrl, ref, compareBase);
+  }, [repoUrl, compareBase, handleFetchFiles]);
+
+  // Comparing reviews the changes of the selected ref since `base`; null goes back to browsing the ref.
+  const handleSelectCompareBase = useCallback((base: string | null) => {
+    dispatch({ type: 'SELECT_COMPARE_BASE', payload: base });
+    handleFetchFiles(repoUrl, repoRef, base);
+  }, [repoUrl, repoRef, handleFetchFiles]);
 
   useEffect(() => {
     if (!repoUrl) {
@@ -206,48 +393,140 @@ export default function App(): React.ReactElement {
     }, 500);
 
     return () => clearTimeout(handler);
-  }, [repoUrl, githubToken, handleFetchFiles]);
+  }, [repoUrl, handleFetchFiles]);
+
+  // Self-hosted GitHub Enterprise, GitLab and Gitea instances are configured on the server.
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchGitHosts(controller.signal)
+      .then(setGitHosts)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to load the Git hosts:', err);
+      });
+    return () => controller.abort();
+  }, [sessionVersion]);
+
+  // Tokens live on the server, one per host; the browser only learns where the repository host's token comes from.
+  useEffect(() => {
+    setGitTokenStatus(null);
+    if (!repoHost) return;
+    const controller = new AbortController();
+    getGitTokenStatus(repoHost, controller.signal)
+      .then(setGitTokenStatus)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to check the token:', err);
+      });
+    return () => controller.abort();
+  }, [repoHost, sessionVersion]);
+
+  // Reloads the repository after the token changed, since it decides what can be read.
+  const handleSaveGitToken = useCallback(async (token: string) => {
+    if (!repoHost) return;
+    setGitTokenStatus(await saveGitToken(repoHost, token));
+    handleFetchFiles(repoUrl, repoRefs ? repoRef : undefined, compareBase);
+  }, [repoUrl, repoRefs, repoRef, compareBase, repoHost, handleFetchFiles]);
+
+  const handleRemoveGitToken = useCallback(async () => {
+    if (!repoHost) return;
+    await removeGitToken(repoHost);
+    // What the token could read stays cached otherwise.
+    await purgeHostCache(repoHost).catch(err => console.warn('Could not purge the repository cache:', err));
+    setGitTokenStatus(await getGitTokenStatus(repoHost));
+    handleFetchFiles(repoUrl, repoRefs ? repoRef : undefined, compareBase);
+  }, [repoUrl, repoRefs, repoRef, compareBase, repoHost, handleFetchFiles]);
+
+  // The task list is configured on the server; its defaults are preselected.
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchAnalysisTasks(controller.signal)
+      .then(({ tasks, limits }) => {
+        setAnalysisTaskDefinitions(tasks);
+        setAnalysisLimits(limits);
+        setSelectedTaskIds(new Set(tasks.filter(task => task.enabledByDefault).map(task => task.id)));
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to load analysis tasks:', err);
+      });
+    return () => controller.abort();
+  }, [sessionVersion]);
+
+  const handleToggleTask = useCallback((taskId: string) => {
+    setSelectedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  }, []);
 
     const handleExpandFolder = useCallback(async (folder: RepoTreeNode) => {
         if (folder.type !== 'folder' || folder.children !== null) return;
         
-        const parsed = parseGitHubUrl(repoUrl);
-        if (!parsed) return;
+        if (!repoLocation) return;
         
         try {
-            const children = await fetchFolderContents(parsed.owner, parsed.repo, folder.path, githubToken);
+            const children = await fetchFolderContents(repoUrl, repoRef, folder.path);
             dispatch({ type: 'EXPAND_FOLDER_SUCCESS', payload: { folderPath: folder.path, children }});
         } catch (err) {
             // Handle folder expansion error silently in console for now
             console.error(`Failed to expand folder ${folder.path}:`, err);
         }
-    }, [repoUrl, githubToken]);
+    }, [repoUrl, repoRef, repoLocation]);
+
+  // Expands the FileBrowser down to `path` (loading folders on the way) and highlights the file.
+  const handleRevealFile = useCallback(async (path: string) => {
+      if (!repoLocation) return;
+
+      const segments = path.split('/');
+      let nodes: RepoTreeNode[] = repoTree;
+      try {
+          for (let i = 1; i < segments.length; i++) {
+              const folderPath = segments.slice(0, i).join('/');
+              const folder = nodes.find(node => node.path === folderPath);
+              if (!folder || folder.type !== 'folder') break;
+
+              let children = folder.children;
+              if (children === null) {
+                  children = await fetchFolderContents(repoUrl, repoRef, folderPath);
+                  dispatch({ type: 'EXPAND_FOLDER_SUCCESS', payload: { folderPath, children }});
+              }
+              nodes = children;
+          }
+      } catch (err) {
+          console.error(`Failed to reveal file ${path}:`, err);
+      }
+      dispatch({ type: 'REVEAL_FILE', payload: path });
+  }, [repoUrl, repoRef, repoLocation, repoTree]);
 
   const handleStartReview = useCallback(async () => {
     if (selectedFilePaths.size === 0) return;
-    const parsed = parseGitHubUrl(repoUrl);
-    if (!parsed) {
+    if (!repoLocation) {
       dispatch({ type: 'FETCH_REVIEW_FILES_FAILURE', payload: "Could not parse repository URL to fetch files." });
       return;
     }
 
     dispatch({ type: 'START_FILE_REVIEW' });
-    const { owner, repo } = parsed;
     try {
       const paths = Array.from(selectedFilePaths);
-      // We need the content for review, so we use a different helper here.
+      // All files are read at one commit, which the exported findings record. A pull request or comparison is read
+      // at its head commit, together with each file's patch and its content before the change.
+      const changes = pullRequest ?? comparison;
+      const source: RepoSource = changes
+        ? { ref: pullRequest ? pullRequest.headRef : repoRef, commit: changes.headCommit }
+        : { ref: repoRef, commit: await resolveRepoCommit(repoUrl, repoRef) };
+      const changedFiles = new Map(changes?.files.map(file => [file.path, file] as const));
+      // The tree listing's blob SHAs key the cached files; without it they are cached by path.
+      const blobShas = paths.some(path => !changedFiles.has(path))
+        ? await fetchRepoTree(repoUrl, source.commit)
+            .then(listing => new Map(listing.files.map(file => [file.path, file.sha] as const)))
+            .catch(() => new Map<string, string | undefined>())
+        : new Map<string, string | undefined>();
       const filesToReview: RepoFileWithContent[] = [];
-      const results = await Promise.allSettled(paths.map(path => 
-        fetch( `https://api.github.com/repos/${owner}/${repo}/contents/${path}`, {
-            headers: githubToken ? { 'Authorization': `Bearer ${githubToken}` } : {}
-        }).then(res => {
-            if (!res.ok) throw new Error(`HTTP error ${res.status} for ${path}`);
-            return res.json();
-        }).then((data): { path: string, content: string } => {
-            if (data.encoding !== 'base64' || typeof data.content !== 'string') throw new Error(`Invalid content for ${path}`);
-            return { path, content: atob(data.content) };
-        })
-      ));
+      const results = await Promise.allSettled(paths.map(async path => {
+        const changedFile = changedFiles.get(path);
+        if (changes && changedFile) return fetchChangedFile(repoUrl, changes, changedFile);
+        return fetchRepoFile(repoUrl, source.commit, path, undefined, blobShas.get(path));
+      }));
 
       results.forEach((result, index) => {
           const path = paths[index];
@@ -259,52 +538,43 @@ export default function App(): React.ReactElement {
               filesToReview.push({ path, content: '', error: errorMessage });
           }
       });
-      dispatch({ type: 'FETCH_REVIEW_FILES_SUCCESS', payload: filesToReview });
+      dispatch({ type: 'FETCH_REVIEW_FILES_SUCCESS', payload: { files: filesToReview, source } });
     } catch (err) {
       // FIX: The error object in a catch block is of type 'unknown'. Handle it safely.
       const message = err instanceof Error ? err.message : 'An unknown error occurred while fetching files.';
       dispatch({ type: 'FETCH_REVIEW_FILES_FAILURE', payload: message });
     }
-  }, [repoUrl, selectedFilePaths, githubToken]);
-
-  const handleStartRepoAnalysis = useCallback(async () => {
-    if (repoTree.length === 0 || !repoUrl) return;
-
-    dispatch({ type: 'START_REPO_ANALYSIS' });
-    dispatch({ type: 'ADD_LOG', payload: '[SYSTEM] Initiating analysis...' });
+  }, [repoUrl, repoRef, repoLocation, pullRequest, comparison, selectedFilePaths]);
 
+  // Feeds the events of an analysis job into the reducer until the stream ends or `controller` is aborted.
+  const followAnalysisEvents = useCallback(async (analysisEvents: AsyncGenerator<RepoAnalysisStreamEvent>, controller: AbortController) => {
     try {
-      const parsed = parseGitHubUrl(repoUrl);
-      if (!parsed) {
-        throw new Error("Invalid GitHub URL. Cannot start analysis.");
-      }
-      const { owner, repo } = parsed;
-      
-      dispatch({ type: 'ADD_LOG', payload: '[SYSTEM] Starting real-time file discovery and analysis stream...' });
-      
-      const onDiscoveryProgress = (message: string) => dispatch({ type: 'ADD_LOG', payload: message });
-
-      // 1. Create a generator that yields file paths as they are discovered.
-      const pathsStream = streamAllFilePaths(owner, repo, githubToken, repoTree, onDiscoveryProgress);
-
-      // 2. Pass the generator to the analysis service, which streams them to the backend.
-      const analysisEvents = analyzeRepositoryStream(repoUrl, pathsStream, githubToken);
-      
-      // 3. Process events from the backend as they arrive.
       for await (const event of analysisEvents) {
         switch(event.type) {
             case 'system':
                 dispatch({ type: 'REPO_ANALYSIS_SYSTEM_EVENT', payload: event.message });
                 break;
+            case 'source':
+                dispatch({ type: 'REPO_ANALYSIS_SOURCE', payload: event.source });
+                break;
             case 'processing_file':
                 dispatch({ type: 'REPO_ANALYSIS_PROCESSING_FILE', payload: event });
                 break;
+            case 'coverage':
+                dispatch({ type: 'REPO_ANALYSIS_COVERAGE', payload: event.coverage });
+                break;
+            case 'task_queued':
+                dispatch({ type: 'REPO_ANALYSIS_TASK_QUEUED', payload: event });
+                break;
             case 'task_start':
                 dispatch({ type: 'REPO_ANALYSIS_TASK_START', payload: event });
                 break;
             case 'task_chunk':
                 dispatch({ type: 'REPO_ANALYSIS_TASK_CHUNK', payload: event });
                 break;
+            case 'task_result':
+                dispatch({ type: 'REPO_ANALYSIS_TASK_RESULT', payload: event });
+                break;
             case 'task_end':
                 dispatch({ type: 'REPO_ANALYSIS_TASK_END', payload: event });
                 break;
@@ -316,12 +586,106 @@ export default function App(): React.ReactElement {
       dispatch({ type: 'REPO_ANALYSIS_COMPLETE' });
 
     } catch (err) {
+      // A newer analysis (or an opened job) took over the view; it owns the state now.
+      if (analysisAbortRef.current !== controller) return;
+      if (controller.signal.aborted) {
+        dispatch({ type: 'ADD_LOG', payload: '[SYSTEM] Analysis cancelled.' });
+        dispatch({ type: 'REPO_ANALYSIS_CANCELLED' });
+        return;
+      }
       // FIX: The 'err' object in a catch block is of type 'unknown'. Added a type guard to safely access the error message.
       const message = err instanceof Error ? err.message : 'An unknown error occurred.';
       dispatch({ type: 'ADD_LOG', payload: `[ERROR] ${message}` });
       dispatch({ type: 'REPO_ANALYSIS_FAILURE', payload: message });
+    } finally {
+      setJobsRefreshKey(key => key + 1);
     }
-  }, [repoTree, repoUrl, githubToken]);
+  }, []);
+
+  // Stops following the current analysis (the job itself keeps running on the server) and starts a new view.
+  const takeOverAnalysisView = useCallback(() => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    analysisJobIdRef.current = null;
+    return controller;
+  }, []);
+
+  const handleStartRepoAnalysis = useCallback(async () => {
+    if (repoTree.length === 0 || !repoUrl) return;
+    const ignorePatterns = repoRules?.rules?.ignore ?? [];
+
+    // Warns before an analysis that would use up the host's rate limit, estimated from the file tree. Hosts that
+    // report no limit are not asked. The estimate follows the server's limits, which are loaded with the tasks.
+    if (repoLocation && analysisLimits && getRateLimit(repoLocation.host)) {
+      const estimate = await estimateAnalysisRequests(repoUrl, repoRef, ignorePatterns, analysisLimits);
+      const rateLimit = getRateLimit(repoLocation.host);
+      if (estimate && rateLimit && estimate.requests > rateLimit.remaining) {
+        const proceed = window.confirm(
+          `This analysis needs ${estimate.truncated ? 'at least' : 'about'} ${estimate.requests} requests to ${repoLocation.label}, ` +
+          `but only ${rateLimit.remaining} are left until the rate limit resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}. ` +
+          'Files that cannot be fetched before then are left out of the analysis. Start anyway?'
+        );
+        if (!proceed) return;
+      }
+    }
+
+    const controller = takeOverAnalysisView();
+    dispatch({ type: 'START_REPO_ANALYSIS', payload: repoUrl });
+    dispatch({ type: 'ADD_LOG', payload: '[SYSTEM] Initiating analysis...' });
+
+    if (!repoLocation) {
+      const message = "Invalid repository URL. Cannot start analysis.";
+      dispatch({ type: 'ADD_LOG', payload: `[ERROR] ${message}` });
+      dispatch({ type: 'REPO_ANALYSIS_FAILURE', payload: message });
+      return;
+    }
+
+    dispatch({ type: 'ADD_LOG', payload: '[SYSTEM] Starting real-time file discovery and analysis stream...' });
+
+    const onDiscoveryProgress = (message: string) => dispatch({ type: 'ADD_LOG', payload: message });
+
+    // 1. Create a generator that yields file paths as they are discovered.
+    const pathsStream = streamAllFilePaths(repoUrl, repoRef, repoTree, onDiscoveryProgress, controller.signal, ignorePatterns);
+
+    // 2. Pass the generator to the analysis service, which streams them to the backend and starts a job.
+    const onJobId = (jobId: string) => {
+      analysisJobIdRef.current = jobId;
+      setJobsRefreshKey(key => key + 1);
+    };
+    // Keep the configured order rather than the order the boxes were ticked in.
+    const taskIds = analysisTaskDefinitions.filter(task => selectedTaskIds.has(task.id)).map(task => task.id);
+    const analysisEvents = analyzeRepositoryStream(repoUrl, repoRef, pathsStream, taskIds, controller.signal, onJobId);
+
+    // 3. Process events from the backend as they arrive.
+    await followAnalysisEvents(analysisEvents, controller);
+  }, [repoTree, repoRules, repoUrl, repoRef, repoLocation, analysisLimits, analysisTaskDefinitions, selectedTaskIds, followAnalysisEvents, takeOverAnalysisView]);
+
+  // Replays a (possibly still running) analysis job from the job list into the analysis view.
+  const handleOpenJob = useCallback(async (job: JobSummary) => {
+    if (job.kind !== 'analysis') return;
+    const controller = takeOverAnalysisView();
+    analysisJobIdRef.current = job.id;
+    dispatch({ type: 'START_REPO_ANALYSIS', payload: job.repoUrl ?? job.title });
+    dispatch({ type: 'ADD_LOG', payload: `[SYSTEM] Loading job "${job.title}" from ${new Date(job.createdAt).toLocaleString()}...` });
+    await followAnalysisEvents(followJobEvents<RepoAnalysisStreamEvent>({ jobId: job.id }, controller.signal), controller);
+  }, [followAnalysisEvents, takeOverAnalysisView]);
+
+  // Cancels the job on the server; merely closing the stream would leave it running.
+  const handleCancelAnalysis = useCallback(() => {
+    const jobId = analysisJobIdRef.current;
+    if (jobId) {
+      cancelJob(jobId).catch(err => console.error(`Failed to cancel job ${jobId}:`, err));
+    }
+    analysisAbortRef.current?.abort();
+  }, []);
+
+  // Leaves the analysis view. A running job continues in the background and stays in the job list.
+  const handleResetAnalysis = useCallback(() => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    dispatch({ type: 'RESET' });
+  }, []);
 
   const renderMainContent = () => {
     if (status === 'reviewing_files' && filesForReview) {
@@ -329,6 +693,12 @@ export default function App(): React.ReactElement {
         <ErrorBoundary onReset={() => dispatch({ type: 'RESET' })}>
           <CodeReviewer 
             files={filesForReview} 
+            rules={repoRules?.rules ?? null}
+            repoUrl={repoUrl}
+            source={reviewSource}
+            pullRequest={pullRequest}
+            canPostReviews={repoLocation?.provider === 'github'}
+            comparison={comparison}
             onReset={() => dispatch({ type: 'RESET' })} 
           />
         </ErrorBoundary>
@@ -336,15 +706,20 @@ export default function App(): React.ReactElement {
     }
     if (status === 'analyzing_repo' || (status === 'repo_loaded' && analysisTasks.length > 0)) {
       return (
-        <ErrorBoundary onReset={() => dispatch({ type: 'RESET' })}>
+        <ErrorBoundary onReset={handleResetAnalysis}>
           <RepoAnalyzer 
-              repoUrl={repoUrl}
+              repoUrl={analysisRepoUrl}
+              source={analysisSource}
+              gitHosts={gitHosts}
               analysisTasks={analysisTasks}
+              coverage={analysisCoverage}
               filesWithContent={allFilesWithContent}
               currentlyProcessingFile={currentlyProcessingFile}
               isLoading={status === 'analyzing_repo'}
               logs={logs}
-              onReset={() => dispatch({ type: 'RESET' })}
+              onRevealFile={handleRevealFile}
+              onCancel={handleCancelAnalysis}
+              onReset={handleResetAnalysis}
           />
         </ErrorBoundary>
       );
@@ -366,10 +741,17 @@ export default function App(): React.ReactElement {
       <div className="flex flex-col items-center justify-center h-full bg-gray-800/50 rounded-lg border-2 border-dashed border-gray-700 p-8 text-gray-500">
         <InfoIcon className="h-12 w-12 mb-4" />
         <h2 className="text-xl font-semibold">Ready for Analysis</h2>
-        <p className="text-center">
-          Use the "Analyze Entire Repository" button for a high-level architectural review,<br/>
-          or select individual files to start a detailed code review.
-        </p>
+        {pullRequest || comparison ? (
+          <p className="text-center">
+            Use the "Review Changes" button to review the changed lines of the selected files,<br/>
+            with the {pullRequest ? "pull request's" : "comparison's"} diff as the main context.
+          </p>
+        ) : (
+          <p className="text-center">
+            Use the "Analyze Entire Repository" button for a high-level architectural review,<br/>
+            or select individual files to start a detailed code review.
+          </p>
+        )}
       </div>
     );
   };
@@ -382,6 +764,14 @@ export default function App(): React.ReactElement {
              <GithubIcon className="h-8 w-8 text-purple-400" />
             <h1 className="text-2xl font-bold tracking-tight text-white">Gemini Code Reviewer</h1>
           </div>
+          <div className="flex items-center gap-6">
+            <RateLimitStatus repoLocation={repoLocation} />
+            <CacheControl onOpenRepo={(url) => dispatch({ type: 'SET_REPO_URL', payload: url })} />
+            <SessionControl onSessionChange={() => {
+              setSessionVersion(version => version + 1);
+              setJobsRefreshKey(key => key + 1);
+            }} />
+          </div>
         </div>
       </header>
 
@@ -390,33 +780,79 @@ export default function App(): React.ReactElement {
           <RepoInput
             repoUrl={repoUrl}
             setRepoUrl={(url) => dispatch({ type: 'SET_REPO_URL', payload: url })}
-            githubToken={githubToken}
-            setGithubToken={(token) => dispatch({ type: 'SET_GITHUB_TOKEN', payload: token })}
+            gitHosts={gitHosts}
+            repoLocation={repoLocation}
+            repoRefs={repoRefs}
+            repoRef={repoRef}
+            onSelectRef={handleSelectRef}
+            compareBase={compareBase}
+            onSelectCompareBase={handleSelectCompareBase}
+            gitTokenStatus={gitTokenStatus}
+            onSaveGitToken={handleSaveGitToken}
+            onRemoveGitToken={handleRemoveGitToken}
             isLoading={status === 'loading_repo'}
           />
+          <JobList refreshKey={jobsRefreshKey} onOpenJob={handleOpenJob} />
           <div className="bg-gray-800/50 rounded-lg border border-gray-700 flex flex-col flex-grow min-h-0">
             <div className="p-4 border-b border-gray-700 text-gray-300 flex-shrink-0">
-                <h2 className="text-lg font-semibold">Repository Explorer</h2>
+                <h2 className="text-lg font-semibold">{pullRequest ? 'Pull Request Changes' : comparison ? 'Compared Changes' : 'Repository Explorer'}</h2>
+                {pullRequest && (
+                    <p className="mt-1 text-sm text-gray-400">
+                        <a href={pullRequest.url} target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:underline">#{pullRequest.number}</a> {pullRequest.title}
+                        <span className="block text-xs font-mono text-gray-500 truncate" title={`${pullRequest.baseRef} @ ${pullRequest.baseCommit} <- ${pullRequest.headRef} @ ${pullRequest.headCommit}`}>
+                            {pullRequest.baseRef} ← {pullRequest.headRef} @ {pullRequest.headCommit.slice(0, 7)}
+                        </span>
+                        {pullRequest.files.some(file => !isReviewable(file)) && (
+                            <span className="block text-xs text-gray-500">Deleted and binary files are not reviewed.</span>
+                        )}
+                    </p>
+                )}
+                {comparison && (
+                    <p className="mt-1 text-sm text-gray-400">
+                        {comparison.totalCommits ?? `${comparison.commits.length}+`} commit(s), {comparison.files.length} changed file(s)
+                        <span className="block text-xs font-mono text-gray-500 truncate" title={`${comparison.base} (merge base ${comparison.baseCommit}) -> ${comparison.head ?? 'default branch'} @ ${comparison.headCommit}`}>
+                            {comparison.base} → {comparison.head ?? 'default branch'} @ {comparison.headCommit.slice(0, 7)}
+                        </span>
+                        {comparison.files.some(file => !isReviewable(file)) && (
+                            <span className="block text-xs text-gray-500">Deleted and binary files are not reviewed.</span>
+                        )}
+                    </p>
+                )}
+                {repoRules?.source && repoRules.rules && (
+                    <p className="mt-1 text-xs text-gray-400" title={repoRules.rules.conventions.join('\n')}>
+                        Rules from <span className="font-mono">{repoRules.source}</span>: {repoRules.rules.conventions.length} conventions, {repoRules.rules.ignore.length} ignored paths, {repoRules.rules.forbiddenPatterns.length} forbidden patterns
+                    </p>
+                )}
+                {repoRules?.error && <p className="mt-1 text-xs text-yellow-400" title={repoRules.error}>Review rules not applied: {repoRules.error}</p>}
             </div>
             {status === 'loading_repo' ? (
               <div className="flex justify-center items-center h-48"><Spinner /></div>
             ) : repoTree.length > 0 ? (
                 <>
+                    {!pullRequest && !comparison && (
                     <div className="p-4 border-b border-gray-700">
                         <button
                             onClick={handleStartRepoAnalysis}
-                            disabled={status === 'analyzing_repo'}
+                            disabled={status === 'analyzing_repo' || selectedTaskIds.size === 0}
                             className="w-full bg-indigo-600 text-white font-semibold rounded-md px-4 py-2 hover:bg-indigo-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
                         >
                             {status === 'analyzing_repo' ? <><Spinner className="w-5 h-5 mr-2"/><span>Analyzing...</span></> : 'Analyze Entire Repository'}
                         </button>
+                        <AnalysisTaskPicker
+                            tasks={analysisTaskDefinitions}
+                            selectedTaskIds={selectedTaskIds}
+                            onToggleTask={handleToggleTask}
+                            disabled={status === 'analyzing_repo'}
+                        />
                     </div>
+                    )}
                     <FileBrowser 
                         nodes={repoTree} 
                         selectedFilePaths={selectedFilePaths} 
                         onToggleFile={(path) => dispatch({ type: 'TOGGLE_FILE_SELECTION', payload: path })}
                         onSelectAll={(select) => dispatch({ type: 'SET_ALL_FILES_SELECTED', payload: { nodes: repoTree, select }})}
                         onExpandFolder={handleExpandFolder}
+                        revealedFilePath={revealedFilePath}
                     />
                 </>
             ) : (
@@ -431,7 +867,7 @@ export default function App(): React.ReactElement {
                             disabled={status === 'fetching_files' || selectedFilePaths.size === 0}
                             className="flex-grow flex items-center justify-center bg-purple-600 text-white font-semibold rounded-md px-4 py-2 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
                         >
-                            {status === 'fetching_files' ? <Spinner className="w-5 h-5"/> : `Review Selected (${selectedFilePaths.size})`}
+                            {status === 'fetching_files' ? <Spinner className="w-5 h-5"/> : `${pullRequest || comparison ? 'Review Changes' : 'Review Selected'} (${selectedFilePaths.size})`}
                         </button>
                         <button onClick={() => dispatch({ type: 'CLEAR_SELECTION' })} disabled={selectedFilePaths.size === 0} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed">
                             Clear
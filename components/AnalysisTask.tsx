@@ -1,14 +1,108 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { marked } from 'marked';
-import type { AnalysisTask } from '../types';
+import type { AnalysisTask, AnalysisTaskResult, SuggestedFix } from '../types';
 import { Spinner } from './Spinner';
 import { AlertTriangleIcon } from './icons/AlertTriangleIcon';
+import { FileIcon } from './icons/FileIcon';
+import { DiffViewer } from './DiffViewer';
 
 interface AnalysisTaskProps {
   task: AnalysisTask;
+  filesWithContent: Map<string, string>;
+  onRevealFile: (path: string) => void;
 }
 
-export const AnalysisTaskItem: React.FC<AnalysisTaskProps> = ({ task }) => {
+const FileLink: React.FC<{ path: string; onRevealFile: (path: string) => void }> = ({ path, onRevealFile }) => (
+  <button
+    onClick={() => onRevealFile(path)}
+    className="inline-flex items-center gap-1 font-mono text-xs text-purple-300 bg-purple-600/20 hover:bg-purple-600/40 rounded px-1.5 py-0.5 transition-colors"
+    title="Show in Repository Explorer"
+  >
+    <FileIcon className="w-3 h-3" />
+    {path}
+  </button>
+);
+
+const SuggestedFixList: React.FC<{
+  fixes: SuggestedFix[];
+  filesWithContent: Map<string, string>;
+  onRevealFile: (path: string) => void;
+}> = ({ fixes, filesWithContent, onRevealFile }) => {
+  const [openFixIndex, setOpenFixIndex] = useState<number | null>(null);
+
+  return (
+    <ol className="mt-2 space-y-2">
+      {fixes.map((fix, index) => {
+        const isOpen = openFixIndex === index;
+        const originalCode = filesWithContent.get(fix.filePath);
+        return (
+          <li key={index} className="border border-gray-700 rounded-md bg-gray-900/40">
+            <button
+              onClick={() => setOpenFixIndex(isOpen ? null : index)}
+              className="w-full text-left p-3 hover:bg-gray-700/30 rounded-md"
+              aria-expanded={isOpen}
+            >
+              <div className="prose prose-invert prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: marked.parse(fix.description) }} />
+              <span className="text-xs text-purple-400">{isOpen ? 'Hide diff' : 'Show diff'}</span>
+            </button>
+            <div className="px-3 pb-3">
+              <FileLink path={fix.filePath} onRevealFile={onRevealFile} />
+            </div>
+            {isOpen && (
+              originalCode === undefined ? (
+                <p className="px-3 pb-3 text-sm text-yellow-400">The original content of this file was not part of the analysis context, so no diff can be shown.</p>
+              ) : (
+                <div className="h-96 px-3 pb-3">
+                  <DiffViewer originalCode={originalCode} correctedCode={fix.correctedCode} highlightedLines={null} />
+                </div>
+              )
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+const StructuredResult: React.FC<{
+  result: AnalysisTaskResult;
+  filesWithContent: Map<string, string>;
+  onRevealFile: (path: string) => void;
+}> = ({ result, filesWithContent, onRevealFile }) => {
+  switch (result.kind) {
+    case 'dependency_review':
+      return (
+        <div className="prose prose-invert max-w-none mt-2">
+          <div dangerouslySetInnerHTML={{ __html: marked.parse(result.data.analysis) }} />
+          {result.data.suggestions.length > 0 && (
+            <>
+              <h4>Suggestions</h4>
+              <ul>{result.data.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}</ul>
+            </>
+          )}
+        </div>
+      );
+    case 'error_trends':
+      return (
+        <ol className="mt-2 space-y-3">
+          {result.data.map((trend, i) => (
+            <li key={i} className="border border-gray-700 rounded-md p-3 bg-gray-900/40">
+              <div className="prose prose-invert prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: marked.parse(trend.trendDescription) }} />
+              {trend.filesAffected.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {trend.filesAffected.map(path => <FileLink key={path} path={path} onRevealFile={onRevealFile} />)}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      );
+    case 'suggested_fixes':
+      return <SuggestedFixList fixes={result.data} filesWithContent={filesWithContent} onRevealFile={onRevealFile} />;
+  }
+};
+
+export const AnalysisTaskItem: React.FC<AnalysisTaskProps> = ({ task, filesWithContent, onRevealFile }) => {
 
   const getStatusIndicator = () => {
     switch(task.status) {
@@ -31,7 +125,9 @@ export const AnalysisTaskItem: React.FC<AnalysisTaskProps> = ({ task }) => {
                     <strong>Error:</strong> {task.error}
                 </div>
             )}
-            {task.content && (
+            {task.result ? (
+                <StructuredResult result={task.result} filesWithContent={filesWithContent} onRevealFile={onRevealFile} />
+            ) : task.content && (
                 <div className="prose prose-invert max-w-none mt-2">
                     <div dangerouslySetInnerHTML={{ __html: marked.parse(task.content) }} />
                     {task.status === 'in_progress' && (
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { AnalysisTaskDefinition } from '../types';
+import { ChevronIcon } from './icons/ChevronIcon';
+
+interface AnalysisTaskPickerProps {
+  tasks: AnalysisTaskDefinition[];
+  selectedTaskIds: Set<string>;
+  onToggleTask: (taskId: string) => void;
+  disabled: boolean;
+}
+
+export const AnalysisTaskPicker: React.FC<AnalysisTaskPickerProps> = ({ tasks, selectedTaskIds, onToggleTask, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-3 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center text-left text-gray-400 hover:text-gray-300"
+        aria-expanded={isOpen}
+      >
+        <span>Analysis tasks ({selectedTaskIds.size} of {tasks.length} selected)</span>
+        <ChevronIcon className={`w-4 h-4 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+          {tasks.length === 0 && <li className="text-gray-500">No analysis tasks are configured on the server.</li>}
+          {tasks.map(task => (
+            <li key={task.id}>
+              <label className="flex items-start gap-2 cursor-pointer text-gray-300" title={task.prompt}>
+                <input
+                  type="checkbox"
+                  checked={selectedTaskIds.has(task.id)}
+                  onChange={() => onToggleTask(task.id)}
+                  disabled={disabled}
+                  className="mt-0.5 h-4 w-4 bg-gray-700 border-gray-500 rounded text-purple-600 focus:ring-purple-500 focus:ring-offset-gray-800 accent-purple-600"
+                />
+                <span>
+                  {task.title}
+                  {task.outputType !== 'markdown' && <span className="ml-1 text-xs text-gray-500 font-mono">{task.outputType}</span>}
+                  {task.description && <span className="block text-xs text-gray-500">{task.description}</span>}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
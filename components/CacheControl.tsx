@@ -0,0 +1,106 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { getCacheUsage, purgeRepoCache, isOfflineMode, setOfflineMode, REPO_CACHE_CHANGED_EVENT, type RepoCacheUsage } from '../services/repoCache';
+
+interface CacheControlProps {
+  onOpenRepo: (repoUrl: string) => void; // Opens a cached repository, e.g. to browse it offline
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Shows the size of the browser's repository cache, with per-repository purging and the offline mode switch.
+export const CacheControl: React.FC<CacheControlProps> = ({ onOpenRepo }) => {
+  const [usage, setUsage] = useState<RepoCacheUsage[]>([]);
+  const [offline, setOffline] = useState(isOfflineMode());
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setUsage(await getCacheUsage());
+    setOffline(isOfflineMode());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Discovery writes many entries in a row; the usage is summed up once they settle.
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleChange = () => {
+      clearTimeout(timer);
+      timer = setTimeout(refresh, 500);
+    };
+    window.addEventListener(REPO_CACHE_CHANGED_EVENT, handleChange);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener(REPO_CACHE_CHANGED_EVENT, handleChange);
+    };
+  }, [refresh]);
+
+  const handleOfflineChange = (value: boolean) => {
+    setOfflineMode(value);
+    setOffline(value);
+  };
+
+  const handlePurge = async (repo: string) => {
+    try {
+      await purgeRepoCache(repo);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to purge the cache.');
+    }
+  };
+
+  const totalBytes = usage.reduce((sum, { bytes }) => sum + bytes, 0);
+
+  return (
+    <div className="relative text-sm">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 text-gray-300 hover:text-white"
+        title="Repository listings and files cached in this browser"
+      >
+        {offline && <span className="px-1.5 py-0.5 text-xs font-semibold bg-yellow-700 text-yellow-100 rounded">Offline</span>}
+        <span>Cache: {formatBytes(totalBytes)}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-gray-800 border border-gray-700 rounded-lg shadow-lg p-4 space-y-3">
+          <label className="flex items-start gap-2 text-gray-300">
+            <input type="checkbox" className="mt-1" checked={offline} onChange={(e) => handleOfflineChange(e.target.checked)} />
+            <span>
+              Offline mode
+              <span className="block text-xs text-gray-500">Only browse and review what is cached; nothing is requested from the Git host.</span>
+            </span>
+          </label>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {usage.length === 0 ? (
+            <p className="text-gray-500">Nothing is cached yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {usage.map(({ repo, entries, bytes }) => (
+                <li key={repo} className="flex items-center justify-between gap-2">
+                  <button
+                    onClick={() => {
+                      onOpenRepo(`https://${repo}`);
+                      setIsOpen(false);
+                    }}
+                    className="font-mono text-purple-400 hover:underline truncate text-left"
+                    title={`Open ${repo}`}
+                  >
+                    {repo}
+                  </button>
+                  <span className="flex items-center gap-3 flex-shrink-0 text-xs text-gray-400">
+                    <span title={`${entries} cached listings and files`}>{formatBytes(bytes)}</span>
+                    <button onClick={() => handlePurge(repo)} className="text-red-400 hover:underline">Purge</button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
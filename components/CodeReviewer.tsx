@@ -1,75 +1,138 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { ReviewState, RepoFileWithContent } from '../types';
-import { reviewCodeStream, lintCode } from '../services/geminiService';
+import type { ReviewState, ReviewResult, ReviewProfile, RepoFileWithContent, RepoRules, RepoSource, PullRequest, Comparison } from '../types';
+import { reviewCodeStream, lintCode, fetchReviewProfiles } from '../services/geminiService';
+import { formatRetryMessage, type RetryInfo } from '../utils/retry.js';
 import { DiffViewer } from './DiffViewer';
 import { Spinner } from './Spinner';
 import { PlusCircleIcon } from './icons/PlusCircleIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
 import { WandIcon } from './icons/WandIcon';
 import { ReviewComments } from './ReviewComments';
-import { CODE_SEPARATOR } from '../utils/constants';
+import { PostReviewDialog } from './PostReviewDialog';
+import { ReleaseSummary } from './ReleaseSummary';
+
+// Reviews running at the same time; the others wait as 'idle'. The server limits how many model requests a client
+// may make per minute, and a pull request can change far more files than that.
+const REVIEW_CONCURRENCY = 4;
 
 interface CodeReviewerProps {
   files: RepoFileWithContent[];
+  rules: RepoRules | null; // The repository's review rules, if it has a .codereview.yml
+  repoUrl: string;
+  source: RepoSource | null; // Commit the files were read at, recorded in the exported findings
+  pullRequest: PullRequest | null; // Set when the files are the changes of a pull request
+  canPostReviews: boolean; // Whether the pull request's host accepts reviews through POST /api/git/pull-review
+  comparison: Comparison | null; // Set when the files are the changes between two compared refs
   onReset: () => void;
 }
 
-export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) => {
+export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, rules, repoUrl, source, pullRequest, canPostReviews, comparison, onReset }) => {
   const [reviewStates, setReviewStates] = useState<Map<string, ReviewState>>(new Map());
   const [activeFilePath, setActiveFilePath] = useState<string | null>(files.length > 0 ? files[0].path : null);
   const [highlightedLines, setHighlightedLines] = useState<Set<number> | null>(null);
+  const [profiles, setProfiles] = useState<ReviewProfile[]>([]);
+  // Empty means the server's default profile.
+  const [profileId, setProfileId] = useState<string>('');
+  const [isPostDialogOpen, setIsPostDialogOpen] = useState(false);
+  // The commits and release summary of a comparison take the place of a file in the main panel.
+  const [isReleaseViewOpen, setIsReleaseViewOpen] = useState(false);
   const commentsRef = useRef<HTMLDivElement>(null);
   const mainPanelRef = useRef<HTMLElement>(null);
+  // One controller per in-flight review so each file can be cancelled on its own.
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
 
   const runReview = useCallback(async (file: RepoFileWithContent) => {
+    abortControllersRef.current.get(file.path)?.abort();
+    const controller = new AbortController();
+    abortControllersRef.current.set(file.path, controller);
+
     setReviewStates(prev => new Map(prev).set(file.path, {
         status: 'streaming',
         lintingStatus: 'idle',
-        streamedComments: '',
+        streamedResponse: '',
         result: null,
         error: null,
     }));
 
     try {
-      const stream = reviewCodeStream(file.content, file.path);
+      const onRetry = (info: RetryInfo) => setReviewStates(prev => {
+          const currentState = prev.get(file.path);
+          if (!currentState) return prev;
+          return new Map(prev).set(file.path, { ...currentState, statusMessage: formatRetryMessage('review', info) });
+      });
+      const stream = reviewCodeStream(file.content, file.path, profileId || undefined, rules, file.patch, controller.signal, onRetry);
       let fullResponse = '';
-      for await (const chunk of stream) {
-        fullResponse += chunk;
+      let result: ReviewResult | null = null;
+      for await (const event of stream) {
+        if (event.type === 'error') throw new Error(event.message);
+        if (event.type === 'system') {
+          setReviewStates(prev => {
+              const currentState = prev.get(file.path);
+              if (!currentState) return prev;
+              return new Map(prev).set(file.path, { ...currentState, statusMessage: event.message });
+          });
+          continue;
+        }
+        if (event.type === 'result') {
+          result = event.result;
+          continue;
+        }
+        fullResponse += event.chunk;
         setReviewStates(prev => {
             const currentState = prev.get(file.path);
             if (!currentState) return prev;
             const newStates = new Map(prev);
-            newStates.set(file.path, { ...currentState, status: 'streaming', streamedComments: fullResponse });
+            newStates.set(file.path, { ...currentState, status: 'streaming', streamedResponse: fullResponse });
             return newStates;
         });
       }
 
-      const parts = fullResponse.split(CODE_SEPARATOR);
-      if (parts.length < 2) throw new Error("Review response format is invalid. The model did not provide a code separator.");
-      
-      const comments = parts[0].trim();
-      const correctedCodeRaw = parts.slice(1).join(CODE_SEPARATOR).trim();
-      const codeMatch = correctedCodeRaw.match(/```(?:\w+)?\n([\s\S]*?)\n```/);
-      const correctedCode = codeMatch ? codeMatch[1] : correctedCodeRaw;
+      if (!result) throw new Error("The review stream ended before a result was received.");
 
       setReviewStates(prev => new Map(prev).set(file.path, {
         status: 'complete',
         lintingStatus: 'idle',
-        streamedComments: comments,
-        result: { reviewComments: comments, correctedCode: correctedCode.trim() },
+        streamedResponse: fullResponse,
+        result,
         error: null,
       }));
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      // A newer run for the same file has replaced this one; leave its state alone.
+      if (abortControllersRef.current.get(file.path) !== controller) return;
+      const cancelled = controller.signal.aborted;
+      const errorMessage = cancelled ? 'Review cancelled.' : err instanceof Error ? err.message : 'An unknown error occurred.';
       setReviewStates(prev => {
           const currentState = prev.get(file.path);
           if (!currentState) return prev;
           const newStates = new Map(prev);
-          newStates.set(file.path, { ...currentState, status: 'error', error: errorMessage });
+          newStates.set(file.path, { ...currentState, status: cancelled ? 'cancelled' : 'error', error: errorMessage });
           return newStates;
       });
+    } finally {
+      if (abortControllersRef.current.get(file.path) === controller) {
+        abortControllersRef.current.delete(file.path);
+      }
     }
+  }, [profileId, rules]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchReviewProfiles(controller.signal)
+      .then(setProfiles)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error('Failed to load review profiles:', err);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const cancelReview = useCallback((path: string) => {
+    abortControllersRef.current.get(path)?.abort();
+  }, []);
+
+  const cancelAllReviews = useCallback(() => {
+    abortControllersRef.current.forEach(controller => controller.abort());
   }, []);
   
     const handleLintFile = useCallback(async (file: RepoFileWithContent) => {
@@ -116,7 +179,7 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
              initialStates.set(file.path, {
                 status: 'error',
                 lintingStatus: 'idle',
-                streamedComments: '',
+                streamedResponse: '',
                 result: null,
                 error: file.error,
             });
@@ -124,7 +187,7 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
             initialStates.set(file.path, {
                 status: 'idle',
                 lintingStatus: 'idle',
-                streamedComments: '',
+                streamedResponse: '',
                 result: null,
                 error: null,
             });
@@ -132,12 +195,20 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
     });
     setReviewStates(initialStates);
 
-    files.forEach(file => {
-        if (!file.error) {
-            runReview(file);
-        }
-    });
-  }, [files, runReview]);
+    let stopped = false;
+    const queue = files.filter(file => !file.error);
+    const reviewQueued = async () => {
+        while (!stopped && queue.length > 0) await runReview(queue.shift()!);
+    };
+    for (let i = 0; i < REVIEW_CONCURRENCY; i++) reviewQueued();
+
+    // Leaving the reviewer (e.g. "New Review") or switching the profile stops every review that is still streaming,
+    // and the queued ones never start.
+    return () => {
+        stopped = true;
+        cancelAllReviews();
+    };
+  }, [files, runReview, cancelAllReviews]);
   
   useEffect(() => {
     const commentsElement = commentsRef.current;
@@ -181,6 +252,8 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
 
   const selectFile = (path: string) => {
     setActiveFilePath(path);
+    setIsPostDialogOpen(false);
+    setIsReleaseViewOpen(false);
     setHighlightedLines(null);
   };
   
@@ -189,6 +262,7 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
         case 'streaming': return <Spinner className="w-4 h-4 text-purple-400" />;
         case 'complete': return <span className="text-green-400 text-lg font-bold">✓</span>;
         case 'error': return <span className="text-red-400 text-lg font-bold">✗</span>;
+        case 'cancelled': return <span className="text-gray-500 text-lg font-bold">⊘</span>;
         case 'idle': return <span className="text-gray-500">...</span>;
     }
   };
@@ -196,17 +270,91 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
   const activeFile = files.find(f => f.path === activeFilePath);
   const activeFileState = activeFilePath ? reviewStates.get(activeFilePath) : null;
 
+  const completedReviews = files
+    .map(file => ({ path: file.path, result: reviewStates.get(file.path)?.result }))
+    .filter((review): review is { path: string; result: ReviewResult } => !!review.result);
+  const totalFindings = completedReviews.reduce((sum, review) => sum + review.result.findings.length, 0);
+  const isAnyStreaming = Array.from(reviewStates.values()).some(state => state.status === 'streaming');
+  const unreviewedPaths = files
+    .filter(file => ['error', 'cancelled'].includes(reviewStates.get(file.path)?.status ?? ''))
+    .map(file => file.path);
+
+  const activeProfile = profiles.find(profile => profile.id === profileId) ?? profiles[0];
+
+  const handleExportFindings = () => {
+    if (completedReviews.length === 0) return;
+
+    const date = new Date().toISOString().split('T')[0];
+    const report = {
+        repository: { url: repoUrl, ref: source?.ref ?? null, commit: source?.commit ?? null },
+        ...(pullRequest ? { pullRequest: { number: pullRequest.number, url: pullRequest.url, baseCommit: pullRequest.baseCommit, headCommit: pullRequest.headCommit } } : {}),
+        ...(comparison ? { comparison: { base: comparison.base, head: comparison.head, baseCommit: comparison.baseCommit, headCommit: comparison.headCommit } } : {}),
+        reviews: completedReviews.map(({ path, result }) => ({
+            path,
+            summary: result.reviewComments,
+            findings: result.findings,
+            prompt: result.prompt,
+        })),
+    };
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `review-findings-${date}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
   return (
     <div className="flex flex-col h-full space-y-4">
       <div className="flex-shrink-0 bg-gray-800/50 rounded-lg p-4 border border-gray-700 flex justify-between items-center">
-        <h2 className="text-lg font-semibold text-gray-200">Reviewing {files.length} file(s)</h2>
-        <button
-          onClick={onReset}
-          className="flex items-center space-x-2 border border-purple-600 text-purple-300 font-semibold rounded-md px-4 py-2 hover:bg-purple-600/20 transition-colors duration-200"
-        >
-          <PlusCircleIcon className="w-5 h-5" />
-          <span>New Review</span>
-        </button>
+        <h2 className="text-lg font-semibold text-gray-200">
+          {pullRequest
+            ? `Reviewing the changes of pull request #${pullRequest.number} in ${files.length} file(s)`
+            : comparison
+              ? `Reviewing the changes from ${comparison.base} to ${comparison.head ?? 'the default branch'} in ${files.length} file(s)`
+              : `Reviewing ${files.length} file(s)`}
+        </h2>
+        <div className="flex items-center space-x-2">
+          {profiles.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-400" title={activeProfile?.description}>
+              <span>Profile</span>
+              <select
+                value={activeProfile?.id}
+                onChange={(e) => setProfileId(e.target.value)}
+                className="bg-gray-900 border border-gray-600 rounded-md px-2 py-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              >
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.title}</option>)}
+              </select>
+            </label>
+          )}
+          {isAnyStreaming && (
+            <button
+              onClick={cancelAllReviews}
+              className="flex items-center space-x-2 border border-red-600 text-red-300 font-semibold rounded-md px-4 py-2 hover:bg-red-600/20 transition-colors duration-200"
+            >
+              <span>Cancel All</span>
+            </button>
+          )}
+          <button
+            onClick={handleExportFindings}
+            disabled={totalFindings === 0}
+            className="flex items-center space-x-2 border border-gray-600 text-gray-300 font-semibold rounded-md px-4 py-2 hover:bg-gray-700/50 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Export findings to JSON"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            <span>Export ({totalFindings})</span>
+          </button>
+          <button
+            onClick={onReset}
+            className="flex items-center space-x-2 border border-purple-600 text-purple-300 font-semibold rounded-md px-4 py-2 hover:bg-purple-600/20 transition-colors duration-200"
+          >
+            <PlusCircleIcon className="w-5 h-5" />
+            <span>New Review</span>
+          </button>
+        </div>
       </div>
       
       <div className="flex-grow flex gap-4 min-h-0">
@@ -214,9 +362,20 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
         <nav className="w-1/3 max-w-sm bg-gray-800/50 rounded-lg border border-gray-700 overflow-y-auto flex flex-col">
             <h3 className="p-4 font-semibold text-gray-300 border-b border-gray-700 flex-shrink-0 sticky top-0 bg-gray-800/80 backdrop-blur-sm">Files for Review</h3>
             <ul className="p-2 space-y-1">
+                {comparison && (
+                    <li>
+                        <button
+                            onClick={() => setIsReleaseViewOpen(true)}
+                            className={`w-full text-left flex items-center gap-3 p-2 rounded-md transition-colors ${isReleaseViewOpen ? 'bg-purple-600/30 text-purple-200' : 'hover:bg-gray-700/50 text-gray-400'}`}
+                        >
+                            <div className="flex-shrink-0 w-4" />
+                            <span className="truncate text-sm font-semibold">Commits &amp; Release Readiness</span>
+                        </button>
+                    </li>
+                )}
                 {files.map(file => {
                     const state = reviewStates.get(file.path);
-                    const isActive = activeFilePath === file.path;
+                    const isActive = !isReleaseViewOpen && activeFilePath === file.path;
                     return (
                         <li key={file.path}>
                             <button 
@@ -236,11 +395,46 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
 
         {/* Main Content */}
         <main ref={mainPanelRef} className="flex-grow bg-gray-800/50 rounded-lg border border-gray-700 flex flex-col">
-           {activeFile && activeFileState ? (
+           {comparison && isReleaseViewOpen ? (
+                <ReleaseSummary
+                  repoUrl={repoUrl}
+                  comparison={comparison}
+                  reviews={completedReviews}
+                  unreviewed={unreviewedPaths}
+                  isReviewing={isAnyStreaming}
+                />
+           ) : activeFile && activeFileState ? (
                 <>
                     <div className="p-4 border-b border-gray-700 flex-shrink-0 flex justify-between items-center">
                         <h3 className="font-mono text-lg truncate text-gray-200" title={activeFile.path}>{activeFile.path}</h3>
+                        {activeFileState.status === 'streaming' && (
+                            <button
+                                onClick={() => cancelReview(activeFile.path)}
+                                className="text-sm border border-red-600 text-red-300 font-semibold rounded-md px-3 py-1.5 hover:bg-red-600/20 transition-colors duration-200"
+                            >
+                                Cancel
+                            </button>
+                        )}
+                        {activeFileState.status === 'cancelled' && (
+                            <button
+                                onClick={() => runReview(activeFile)}
+                                className="text-sm bg-gray-700 text-white font-semibold rounded-md px-3 py-1.5 hover:bg-gray-600 transition-colors duration-200"
+                            >
+                                Restart Review
+                            </button>
+                        )}
                         {activeFileState.status === 'complete' && activeFileState.result && (
+                          <div className="flex items-center gap-2">
+                            {pullRequest && canPostReviews && (
+                              <button
+                                onClick={() => setIsPostDialogOpen(true)}
+                                disabled={activeFileState.result.findings.length === 0}
+                                className="text-sm border border-purple-600 text-purple-300 font-semibold rounded-md px-3 py-1.5 hover:bg-purple-600/20 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Post the findings as review comments on the pull request"
+                              >
+                                Post to PR
+                              </button>
+                            )}
                              <button
                                 onClick={() => handleLintFile(activeFile)}
                                 disabled={activeFileState.lintingStatus === 'linting'}
@@ -250,6 +444,7 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
                                 {activeFileState.lintingStatus === 'linting' ? <Spinner className="w-4 h-4" /> : <WandIcon className="w-4 h-4" />}
                                 <span>{activeFileState.lintingStatus === 'linting' ? 'Formatting...' : 'Auto-Fix & Format'}</span>
                             </button>
+                          </div>
                         )}
                     </div>
                     
@@ -257,7 +452,11 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
                         <div className="p-4 m-4 bg-red-900/50 border border-red-700 text-red-300 rounded-lg">{activeFileState.error}</div>
                     )}
                     
-                    {activeFileState.status !== 'error' && (
+                    {activeFileState.status === 'cancelled' && (
+                        <div className="p-4 m-4 bg-gray-900/50 border border-gray-700 text-gray-400 rounded-lg">{activeFileState.error}</div>
+                    )}
+                    
+                    {activeFileState.status !== 'error' && activeFileState.status !== 'cancelled' && (
                          <div className="flex flex-grow min-h-0 gap-4 p-4">
                             <div className="w-2/5 flex flex-col">
                                 <ReviewComments state={activeFileState} containerRef={commentsRef} />
@@ -267,10 +466,21 @@ export const CodeReviewer: React.FC<CodeReviewerProps> = ({ files, onReset }) =>
                                   originalCode={activeFile.content} 
                                   correctedCode={activeFileState.result?.correctedCode ?? activeFile.content} 
                                   highlightedLines={highlightedLines} 
+                                  baseCode={activeFile.baseContent}
                                 />
                             </div>
                          </div>
                     )}
+
+                    {isPostDialogOpen && pullRequest && activeFileState.result && (
+                        <PostReviewDialog
+                          repoUrl={repoUrl}
+                          pullRequest={pullRequest}
+                          file={activeFile}
+                          result={activeFileState.result}
+                          onClose={() => setIsPostDialogOpen(false)}
+                        />
+                    )}
                 </>
            ) : (
                 <div className="flex items-center justify-center h-full text-gray-500">
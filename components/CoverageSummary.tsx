@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import type { AnalysisCoverage } from '../types';
+import { ChevronIcon } from './icons/ChevronIcon';
+
+interface CoverageSummaryProps {
+  coverage: AnalysisCoverage;
+}
+
+const MODE_LABELS: Record<AnalysisCoverage['mode'], string> = {
+  full: 'All files analyzed in full',
+  map_reduce: 'Large repository: analyzed through per-directory digests',
+  truncated: 'Context limit reached: only the first files were analyzed',
+};
+
+export const CoverageSummary: React.FC<CoverageSummaryProps> = ({ coverage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const skippedCount = coverage.filesSkipped.length;
+  const redactions = coverage.redactions ?? [];
+  const hasDetails = skippedCount > 0 || redactions.length > 0;
+  const total = coverage.filesIncluded + skippedCount;
+  const percent = total > 0 ? Math.round((coverage.filesIncluded / total) * 100) : 100;
+
+  return (
+    <div className={`rounded-lg border p-3 text-sm ${hasDetails ? 'border-yellow-700 bg-yellow-900/20' : 'border-gray-700 bg-gray-800/50'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!hasDetails}
+        className="w-full flex justify-between items-center text-left disabled:cursor-default"
+        aria-expanded={isOpen}
+      >
+        <span className="text-gray-300">
+          <strong>Coverage:</strong> {coverage.filesIncluded} of {total} files ({percent}%)
+          {coverage.batches !== undefined && ` in ${coverage.batches} digests`}
+          <span className="text-gray-500"> — {MODE_LABELS[coverage.mode]}</span>
+          {redactions.length > 0 && <span className="text-yellow-400"> · {redactions.length} secret(s) redacted</span>}
+        </span>
+        {hasDetails && <ChevronIcon className={`w-5 h-5 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />}
+      </button>
+      {isOpen && (
+        <ul className="mt-2 max-h-48 overflow-y-auto font-mono text-xs text-gray-400 space-y-0.5">
+          {coverage.filesSkipped.map(({ path, reason }) => (
+            <li key={path}><span className="text-yellow-400">{path}</span> — {reason}</li>
+          ))}
+          {redactions.map(({ path, line, title }, index) => (
+            <li key={`${path}:${line}:${index}`}><span className="text-yellow-400">{path}:{line}</span> — {title} redacted before prompting</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -4,7 +4,10 @@ import { diffLines, type Change } from 'diff';
 interface DiffViewerProps {
   originalCode: string;
   correctedCode: string;
-  highlightedLines: Set<number> | null;
+  highlightedLines: Set<number> | null; // Lines of originalCode
+  // For pull request reviews: the file before the pull request, shown as a third column left of originalCode
+  // (the file after it).
+  baseCode?: string;
 }
 
 type DiffLine = {
@@ -13,6 +16,8 @@ type DiffLine = {
   type: 'add' | 'remove' | 'equal' | 'placeholder';
 };
 
+const splitLines = (text: string) => text.replace(/\n$/, '').split('\n');
+
 const processDiff = (originalCode: string, correctedCode: string): { left: DiffLine[], right: DiffLine[] } => {
     const diffs = diffLines(originalCode, correctedCode);
     const left: DiffLine[] = [];
@@ -21,7 +26,7 @@ const processDiff = (originalCode: string, correctedCode: string): { left: DiffL
     let rightLineNum = 1;
 
     diffs.forEach((part: Change) => {
-        const lines = part.value.replace(/\n$/, '').split('\n');
+        const lines = splitLines(part.value);
         
         if (part.added) {
             lines.forEach(line => {
@@ -44,12 +49,82 @@ const processDiff = (originalCode: string, correctedCode: string): { left: DiffL
     return { left, right };
 };
 
+// Pairs each line of one side of a diff (the old side for 'old') with the other side. `counterparts[i]` is the
+// other side's line equal to line i, or null when line i only exists on this side; `inserted[i]` holds the
+// other side's lines without a counterpart that come before line i (the last entry: after the last line).
+const alignOnSide = (changes: Change[], side: 'old' | 'new') => {
+    const lines: string[] = [];
+    const counterparts: (DiffLine | null)[] = [];
+    const inserted: DiffLine[][] = [[]];
+    let otherLineNum = 1;
+
+    changes.forEach((part: Change) => {
+        const partLines = splitLines(part.value);
+        const onThisSide = side === 'old' ? !part.added : !part.removed;
+        const onOtherSide = side === 'old' ? !part.removed : !part.added;
+        partLines.forEach(line => {
+            if (onThisSide) {
+                lines.push(line);
+                counterparts.push(onOtherSide ? { type: 'equal', content: line, lineNumber: otherLineNum++ } : null);
+                inserted.push([]);
+            } else {
+                inserted[inserted.length - 1].push({ type: side === 'old' ? 'add' : 'remove', content: line, lineNumber: otherLineNum++ });
+            }
+        });
+    });
 
-export const DiffViewer: React.FC<DiffViewerProps> = ({ originalCode, correctedCode, highlightedLines }) => {
-    const { left: leftLines, right: rightLines } = useMemo(() => processDiff(originalCode, correctedCode), [originalCode, correctedCode]);
+    return { lines, counterparts, inserted };
+};
+
+// Lines up base, head (originalCode) and corrected code on the head's lines. Head lines are marked as added by
+// the pull request, or as removed when the corrected version drops them.
+const processThreeWayDiff = (baseCode: string, headCode: string, correctedCode: string): { base: DiffLine[], head: DiffLine[], corrected: DiffLine[] } => {
+    const pull = alignOnSide(diffLines(baseCode, headCode), 'new');
+    const review = alignOnSide(diffLines(headCode, correctedCode), 'old');
+    const base: DiffLine[] = [];
+    const head: DiffLine[] = [];
+    const corrected: DiffLine[] = [];
+    const placeholder: DiffLine = { type: 'placeholder', content: '' };
+
+    for (let i = 0; i <= pull.lines.length; i++) {
+        const removed = pull.inserted[i] ?? [];
+        const added = review.inserted[i] ?? [];
+        for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+            base.push(removed[row] ?? placeholder);
+            head.push(placeholder);
+            corrected.push(added[row] ?? placeholder);
+        }
+        if (i === pull.lines.length) break;
+
+        const baseLine = pull.counterparts[i];
+        const correctedLine = review.counterparts[i] ?? null;
+        base.push(baseLine ?? placeholder);
+        head.push({ type: correctedLine ? (baseLine ? 'equal' : 'add') : 'remove', content: pull.lines[i], lineNumber: i + 1 });
+        corrected.push(correctedLine ?? placeholder);
+    }
+
+    return { base, head, corrected };
+};
+
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({ originalCode, correctedCode, highlightedLines, baseCode }) => {
+    // Columns from left to right; highlighted lines refer to the one with originalCode.
+    const columns = useMemo(() => {
+        if (baseCode === undefined) {
+            const { left, right } = processDiff(originalCode, correctedCode);
+            return [{ title: 'Original', lines: left, isOriginal: true }, { title: 'Corrected', lines: right, isOriginal: false }];
+        }
+        const { base, head, corrected } = processThreeWayDiff(baseCode, originalCode, correctedCode);
+        return [
+            { title: 'Base', lines: base, isOriginal: false },
+            { title: 'Pull Request', lines: head, isOriginal: true },
+            { title: 'Corrected', lines: corrected, isOriginal: false },
+        ];
+    }, [baseCode, originalCode, correctedCode]);
+    const widthClass = columns.length === 3 ? 'w-1/3' : 'w-1/2';
     
-    const renderPanel = (lines: DiffLine[], isLeftPanel: boolean) => (
-        <div className="w-1/2 overflow-auto font-mono text-sm bg-gray-900">
+    const renderPanel = (lines: DiffLine[], isOriginalPanel: boolean) => (
+        <div className={`${widthClass} overflow-auto font-mono text-sm bg-gray-900`}>
             <pre className="p-4">
                 {lines.map((line, index) => {
                     let bgClass = '';
@@ -58,7 +133,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ originalCode, correctedC
                     if (line.type === 'add') bgClass = 'bg-green-800/30';
                     if (line.type === 'remove') bgClass = 'bg-red-800/30';
                     
-                    if (isLeftPanel && line.lineNumber && highlightedLines?.has(line.lineNumber)) {
+                    if (isOriginalPanel && line.lineNumber && highlightedLines?.has(line.lineNumber)) {
                        highlightClass = 'bg-purple-600/40 border-l-2 border-purple-400';
                     }
 
@@ -79,13 +154,15 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ originalCode, correctedC
     <div className="flex flex-col gap-4 h-full diff-viewer-container">
       <div className="w-full flex flex-col bg-gray-900/70 rounded-lg border border-gray-700 overflow-hidden h-full">
         <div className="flex-shrink-0 text-md font-semibold p-3 bg-gray-800/80 border-b border-gray-700 flex">
-            <div className="w-1/2">Original</div>
-            <div className="w-1/2">Corrected</div>
+            {columns.map(column => <div key={column.title} className={widthClass}>{column.title}</div>)}
         </div>
         <div className="flex flex-grow min-h-0">
-            {renderPanel(leftLines, true)}
-            <div className="w-px bg-gray-700 flex-shrink-0"></div>
-            {renderPanel(rightLines, false)}
+            {columns.map((column, index) => (
+                <React.Fragment key={column.title}>
+                    {index > 0 && <div className="w-px bg-gray-700 flex-shrink-0"></div>}
+                    {renderPanel(column.lines, column.isOriginal)}
+                </React.Fragment>
+            ))}
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import type { RepoTreeNode } from '../types';
 import { FileIcon } from './icons/FileIcon';
 import { FolderIcon } from './icons/FolderIcon';
@@ -11,6 +11,7 @@ interface FileBrowserProps {
   onToggleFile: (path: string) => void;
   onSelectAll: (select: boolean) => void;
   onExpandFolder: (folder: RepoTreeNode) => void;
+  revealedFilePath?: string | null;
 }
 
 const TreeNode: React.FC<{
@@ -18,11 +19,21 @@ const TreeNode: React.FC<{
   selectedFilePaths: Set<string>;
   onToggleFile: (path: string) => void;
   onExpandFolder: (folder: RepoTreeNode) => void;
+  revealedFilePath?: string | null;
   level: number;
-}> = ({ node, selectedFilePaths, onToggleFile, onExpandFolder, level }) => {
+}> = ({ node, selectedFilePaths, onToggleFile, onExpandFolder, revealedFilePath, level }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const fileRef = useRef<HTMLLabelElement>(null);
   const indentStyle = { paddingLeft: `${level * 1.25 + 0.75}rem` };
+  const isRevealed = revealedFilePath === node.path;
+
+  // Open ancestors of a revealed file and scroll the file itself into view.
+  useEffect(() => {
+    if (!revealedFilePath) return;
+    if (node.type === 'folder' && revealedFilePath.startsWith(`${node.path}/`)) setIsOpen(true);
+    if (isRevealed) fileRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [revealedFilePath, node.path, node.type, isRevealed]);
 
   if (node.type === 'folder') {
     const handleToggle = async () => {
@@ -55,6 +66,7 @@ const TreeNode: React.FC<{
                 selectedFilePaths={selectedFilePaths}
                 onToggleFile={onToggleFile}
                 onExpandFolder={onExpandFolder}
+                revealedFilePath={revealedFilePath}
                 level={level + 1}
               />
             ))}
@@ -68,12 +80,13 @@ const TreeNode: React.FC<{
   return (
     <li>
       <label
+        ref={fileRef}
         htmlFor={`file-${node.path.replace(/[^a-zA-Z0-9]/g, '-')}`}
         className={`w-full text-left flex items-center space-x-3 px-3 py-2 rounded-md transition-colors duration-150 cursor-pointer ${
           isSelected
             ? 'bg-purple-600/30 text-purple-300'
             : 'text-gray-400 hover:bg-gray-700/50 hover:text-gray-200'
-        }`}
+        } ${isRevealed ? 'ring-2 ring-purple-400' : ''}`}
         style={indentStyle}
         title={node.path}
       >
@@ -92,7 +105,7 @@ const TreeNode: React.FC<{
 };
 
 
-export const FileBrowser: React.FC<FileBrowserProps> = ({ nodes, selectedFilePaths, onToggleFile, onSelectAll, onExpandFolder }) => {
+export const FileBrowser: React.FC<FileBrowserProps> = ({ nodes, selectedFilePaths, onToggleFile, onSelectAll, onExpandFolder, revealedFilePath }) => {
   if (nodes.length === 0) {
     return <div className="p-4 text-gray-500 text-center">No files to display.</div>;
   }
@@ -126,6 +139,7 @@ export const FileBrowser: React.FC<FileBrowserProps> = ({ nodes, selectedFilePat
               selectedFilePaths={selectedFilePaths}
               onToggleFile={onToggleFile}
               onExpandFolder={onExpandFolder}
+              revealedFilePath={revealedFilePath}
               level={0}
              />
           ))}
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { JobSummary, JobStatus, ReviewState } from '../types';
+import { listJobs, getJob, cancelJob, deleteJob } from '../services/jobService';
+import { ChevronIcon } from './icons/ChevronIcon';
+import { Spinner } from './Spinner';
+import { ReviewComments } from './ReviewComments';
+
+interface JobListProps {
+  refreshKey: number; // Bumped by the parent when it starts or finishes a job
+  onOpenJob: (job: JobSummary) => void;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  running: 'text-purple-300',
+  complete: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-400',
+  interrupted: 'text-yellow-400',
+};
+
+// Review jobs are shown inline, since the review view is tied to files loaded from the current repository.
+const ReviewJobResult: React.FC<{ jobId: string }> = ({ jobId }) => {
+  const [state, setState] = useState<ReviewState | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getJob(jobId, controller.signal)
+      .then(job => {
+        if (job.kind !== 'review') return;
+        const error = job.status === 'running' ? 'The review is still running.' : job.error;
+        setState({ status: job.result ? 'complete' : 'error', lintingStatus: 'idle', streamedResponse: '', result: job.result, error });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setState({ status: 'error', lintingStatus: 'idle', streamedResponse: '', result: null, error: message });
+      });
+    return () => controller.abort();
+  }, [jobId]);
+
+  if (!state) return <div className="flex justify-center p-2"><Spinner className="w-5 h-5" /></div>;
+  if (!state.result) return <p className="text-xs text-red-400 p-2">{state.error ?? 'This review has no result.'}</p>;
+  return <div className="h-96 mt-2"><ReviewComments state={state} /></div>;
+};
+
+export const JobList: React.FC<JobListProps> = ({ refreshKey, onOpenJob }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedReviewId, setExpandedReviewId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setJobs(await listJobs());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  // Poll only while something is running; finished jobs do not change.
+  const hasRunningJobs = jobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningJobs, refresh]);
+
+  const handleCancel = async (job: JobSummary) => {
+    try {
+      await cancelJob(job.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel the job.');
+    }
+    refresh();
+  };
+
+  const handleDelete = async (job: JobSummary) => {
+    try {
+      await deleteJob(job.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the job.');
+    }
+    refresh();
+  };
+
+  const handleOpen = (job: JobSummary) => {
+    if (job.kind === 'review') {
+      setExpandedReviewId(expandedReviewId === job.id ? null : job.id);
+    } else {
+      onOpenJob(job);
+    }
+  };
+
+  const runningCount = jobs.filter(job => job.status === 'running').length;
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg border border-gray-700 p-4 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center text-left text-gray-300"
+        aria-expanded={isOpen}
+      >
+        <span className="text-lg font-semibold">
+          Jobs ({jobs.length})
+          {runningCount > 0 && <span className="ml-2 text-sm font-normal text-purple-300">{runningCount} running</span>}
+        </span>
+        <ChevronIcon className={`w-5 h-5 flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {jobs.length === 0 && !error && <p className="text-gray-500">No jobs yet. Analyses started here run on the server and are listed for later.</p>}
+          <ul className="max-h-96 overflow-y-auto space-y-2">
+            {jobs.map(job => (
+              <li key={job.id} className="border border-gray-700 rounded-md p-2 bg-gray-900/40">
+                <div className="flex items-center gap-2">
+                  {job.status === 'running' && <Spinner className="w-4 h-4 text-purple-400 flex-shrink-0" />}
+                  <div className="min-w-0 flex-grow">
+                    <p className="truncate text-gray-200" title={job.title}>{job.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {job.kind} · <span className={STATUS_STYLES[job.status]}>{job.status}</span> · {new Date(job.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {job.error && job.status !== 'running' && <p className="mt-1 text-xs text-gray-400 truncate" title={job.error}>{job.error}</p>}
+                <div className="mt-2 flex gap-2">
+                  <button onClick={() => handleOpen(job)} className="px-2 py-0.5 text-xs bg-purple-600 hover:bg-purple-700 rounded">
+                    {job.kind === 'review' && expandedReviewId === job.id ? 'Hide' : 'Open'}
+                  </button>
+                  {job.status === 'running' ? (
+                    <button onClick={() => handleCancel(job)} className="px-2 py-0.5 text-xs bg-red-600/80 hover:bg-red-600 rounded">Cancel</button>
+                  ) : (
+                    <button onClick={() => handleDelete(job)} className="px-2 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 rounded">Delete</button>
+                  )}
+                </div>
+                {expandedReviewId === job.id && <ReviewJobResult jobId={job.id} />}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import type { PullRequest, PullRequestReviewResult, RepoFileWithContent, ReviewResult } from '../types';
+import { postPullRequestReview } from '../services/gitService';
+import { Spinner } from './Spinner';
+
+interface PostReviewDialogProps {
+  repoUrl: string;
+  pullRequest: PullRequest;
+  file: RepoFileWithContent;
+  result: ReviewResult;
+  onClose: () => void;
+}
+
+// The hidden marker that identifies a posted finding is not worth showing in the preview.
+const withoutMarker = (body: string) => body.replace(/\s*<!-- code-reviewer:[0-9a-f]+ -->$/, '');
+
+const formatLines = (start: number, end: number) => (start === end ? `line ${start}` : `lines ${start}-${end}`);
+
+// Previews the review a file's findings become on the pull request (a dry run of POST /api/git/pull-review) and posts it.
+export const PostReviewDialog: React.FC<PostReviewDialogProps> = ({ repoUrl, pullRequest, file, result, onClose }) => {
+  const [suggestions, setSuggestions] = useState(true);
+  const [preview, setPreview] = useState<PullRequestReviewResult | null>(null);
+  const [posted, setPosted] = useState<PullRequestReviewResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsBusy(true);
+    setError(null);
+    postPullRequestReview(repoUrl, pullRequest, file, result, { suggestions, dryRun: true }, controller.signal)
+      .then(setPreview)
+      .catch(err => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : 'Failed to preview the review.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsBusy(false);
+      });
+    return () => controller.abort();
+  }, [repoUrl, pullRequest, file, result, suggestions]);
+
+  const handlePost = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPosted(await postPullRequestReview(repoUrl, pullRequest, file, result, { suggestions, dryRun: false }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post the review.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const shown = posted ?? preview;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="postReviewTitle"
+        className="bg-gray-800 border border-gray-700 rounded-lg w-full max-w-3xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex-shrink-0">
+          <h3 id="postReviewTitle" className="text-lg font-semibold text-gray-200">
+            Post to pull request #{pullRequest.number}
+          </h3>
+          <p className="text-sm text-gray-400 font-mono truncate" title={file.path}>{file.path}</p>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 flex-grow">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={suggestions}
+              onChange={(e) => setSuggestions(e.target.checked)}
+              disabled={isBusy || !!posted}
+            />
+            Include suggested changes from the corrected code
+          </label>
+
+          {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg text-sm">{error}</div>}
+
+          {posted?.posted && (
+            <div className="p-3 bg-green-900/40 border border-green-700 text-green-300 rounded-lg text-sm">
+              Posted {posted.review.comments.length} comment(s).{' '}
+              <a href={posted.posted.url} target="_blank" rel="noopener noreferrer" className="text-purple-300 hover:underline">View the review</a>
+            </div>
+          )}
+          {posted && !posted.posted && (
+            <div className="p-3 bg-gray-900/50 border border-gray-700 text-gray-400 rounded-lg text-sm">
+              Nothing new to post: every finding is already on the pull request or outside its diff.
+            </div>
+          )}
+
+          {!shown && isBusy && (
+            <div className="flex items-center gap-2 text-gray-400 text-sm">
+              <Spinner className="w-4 h-4" /> Building the review...
+            </div>
+          )}
+
+          {shown && (
+            <>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-300 mb-2">
+                  {posted ? 'Posted comments' : 'Comments to post'} ({shown.review.comments.length})
+                </h4>
+                <ul className="space-y-2">
+                  {shown.review.comments.map(comment => (
+                    <li key={`${comment.startLine}-${comment.line}-${comment.body}`} className="bg-gray-900/60 border border-gray-700 rounded-md p-3">
+                      <p className="text-xs text-gray-500 mb-1">{formatLines(comment.startLine, comment.line)}</p>
+                      <pre className="text-sm text-gray-300 whitespace-pre-wrap font-sans">{withoutMarker(comment.body)}</pre>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              {shown.skipped.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-300 mb-2">Not posted ({shown.skipped.length})</h4>
+                  <ul className="text-sm text-gray-400 list-disc pl-5 space-y-1">
+                    {shown.skipped.map(finding => (
+                      <li key={`${finding.startLine}-${finding.endLine}-${finding.title}`}>
+                        {finding.title} ({formatLines(finding.startLine, finding.endLine)}): {finding.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex-shrink-0 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="border border-gray-600 text-gray-300 font-semibold rounded-md px-4 py-2 hover:bg-gray-700/50 transition-colors duration-200"
+          >
+            {posted ? 'Close' : 'Cancel'}
+          </button>
+          {!posted && (
+            <button
+              onClick={handlePost}
+              disabled={isBusy || !preview || preview.review.comments.length === 0}
+              className="flex items-center gap-2 bg-purple-600 text-white font-semibold rounded-md px-4 py-2 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isBusy && preview && <Spinner className="w-4 h-4" />}
+              <span>Post Review</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import type { RepoLocation } from '../types';
+import { getRateLimit, RATE_LIMIT_CHANGED_EVENT } from '../services/rateLimit';
+
+interface RateLimitStatusProps {
+  repoLocation: RepoLocation | null; // The host of the open repository
+}
+
+// "1:05:09" or "4:09" until `time`.
+const formatCountdown = (time: number, now: number) => {
+  const seconds = Math.max(0, Math.ceil((time - now) / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = String(Math.floor((seconds % 3600) / 60)).padStart(hours ? 2 : 1, '0');
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`;
+};
+
+// Shows how many API requests the Git host of the open repository still allows, and counts down while file
+// discovery waits for the limit to reset. Hosts that report no rate limit show nothing.
+export const RateLimitStatus: React.FC<RateLimitStatusProps> = ({ repoLocation }) => {
+  const host = repoLocation?.host ?? null;
+  const [rateLimit, setRateLimit] = useState(() => (host ? getRateLimit(host) : null));
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const refresh = () => {
+      setRateLimit(host ? getRateLimit(host) : null);
+      setNow(Date.now());
+    };
+    refresh();
+    window.addEventListener(RATE_LIMIT_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(RATE_LIMIT_CHANGED_EVENT, refresh);
+  }, [host]);
+
+  const isPaused = !!rateLimit?.pausedUntil && rateLimit.pausedUntil > now;
+
+  // The countdown ticks every second; otherwise the time to the reset is refreshed now and then.
+  useEffect(() => {
+    if (!rateLimit) return;
+    const timer = setInterval(() => {
+      setRateLimit(host ? getRateLimit(host) : null);
+      setNow(Date.now());
+    }, isPaused ? 1000 : 30000);
+    return () => clearInterval(timer);
+  }, [host, rateLimit, isPaused]);
+
+  if (!repoLocation || !rateLimit) return null;
+
+  const { limit, remaining, resetAt, pausedUntil } = rateLimit;
+  const isLow = limit ? remaining < limit / 10 : remaining === 0;
+  const resetTime = new Date(resetAt).toLocaleTimeString();
+
+  if (isPaused) {
+    return (
+      <span
+        className="px-2 py-0.5 text-sm font-semibold bg-yellow-700 text-yellow-100 rounded"
+        title={`The ${repoLocation.label} rate limit is used up. File discovery resumes when it resets at ${resetTime}.`}
+      >
+        Discovery paused: resumes in {formatCountdown(pausedUntil!, now)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`text-sm ${isLow ? 'text-yellow-400' : 'text-gray-300'}`}
+      title={`Requests to the ${repoLocation.label} API left until the limit resets at ${resetTime}. Add a token to raise it.`}
+    >
+      {repoLocation.label} API: {remaining.toLocaleString()}{limit !== null && ` / ${limit.toLocaleString()}`} left
+      {resetAt > now && <span className="text-gray-500">, resets in {Math.ceil((resetAt - now) / 60000)} min</span>}
+    </span>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { marked } from 'marked';
+import type { Comparison, ReviewResult } from '../types';
+import { releaseSummaryStream } from '../services/geminiService';
+import { Spinner } from './Spinner';
+
+interface ReleaseSummaryProps {
+  repoUrl: string;
+  comparison: Comparison;
+  reviews: { path: string; result: ReviewResult }[]; // Completed reviews of the changed files
+  unreviewed: string[]; // Changed files whose review failed or was cancelled
+  isReviewing: boolean; // Reviews are still running; the summary waits for them
+}
+
+// The commits of a comparison and a release-readiness report built from them and the file reviews.
+export const ReleaseSummary: React.FC<ReleaseSummaryProps> = ({ repoUrl, comparison, reviews, unreviewed, isReviewing }) => {
+  const [status, setStatus] = useState<'idle' | 'streaming' | 'complete' | 'error'>('idle');
+  const [report, setReport] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleGenerate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('streaming');
+    setReport('');
+    setError(null);
+    try {
+      let text = '';
+      for await (const event of releaseSummaryStream(repoUrl, comparison, reviews, unreviewed, controller.signal)) {
+        if (event.type === 'error') throw new Error(event.message);
+        if (event.type === 'chunk') {
+          text += event.chunk;
+          setReport(text);
+        }
+      }
+      setStatus('complete');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      setStatus('error');
+    }
+  };
+
+  const { commits, totalCommits } = comparison;
+  const unlisted = totalCommits === null ? null : totalCommits - commits.length;
+
+  return (
+    <div className="flex flex-grow min-h-0 gap-4 p-4">
+      <div className="w-2/5 flex flex-col min-h-0">
+        <h4 className="font-semibold text-gray-300 mb-2">
+          Commits ({totalCommits ?? `${commits.length}+`})
+        </h4>
+        <ul className="overflow-y-auto space-y-2 pr-1">
+          {commits.map(commit => (
+            <li key={commit.sha} className="border border-gray-700 rounded-md p-2 bg-gray-900/40">
+              <p className="text-sm text-gray-200 whitespace-pre-wrap" title={commit.message}>{commit.message.split('\n')[0]}</p>
+              <p className="text-xs text-gray-500 font-mono">
+                {commit.sha.slice(0, 7)}
+                {commit.author && ` · ${commit.author}`}
+                {commit.date && ` · ${new Date(commit.date).toLocaleDateString()}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+        {unlisted !== 0 && (
+          <p className="text-xs text-gray-500 mt-2">{unlisted === null ? 'More commits' : `${unlisted} more commit(s)`} are not listed.</p>
+        )}
+      </div>
+      <div className="w-3/5 flex flex-col min-h-0">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold text-gray-300">Release Readiness</h4>
+          <button
+            onClick={handleGenerate}
+            disabled={isReviewing || status === 'streaming'}
+            className="flex items-center gap-2 text-sm bg-purple-600 text-white font-semibold rounded-md px-3 py-1.5 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+            title={isReviewing ? 'Available once every file has been reviewed' : undefined}
+          >
+            {status === 'streaming' && <Spinner className="w-4 h-4" />}
+            <span>{status === 'idle' ? 'Generate Summary' : 'Regenerate'}</span>
+          </button>
+        </div>
+        {unreviewed.length > 0 && (
+          <p className="text-xs text-yellow-400 mb-2">Not reviewed, which counts against the release: {unreviewed.join(', ')}</p>
+        )}
+        {error && <div className="p-3 bg-red-900/50 border border-red-700 text-red-300 rounded-lg text-sm">{error}</div>}
+        {report ? (
+          <div className="prose prose-invert prose-sm max-w-none overflow-y-auto" dangerouslySetInnerHTML={{ __html: marked.parse(report) }} />
+        ) : (
+          !error && (
+            <p className="text-sm text-gray-500">
+              {isReviewing
+                ? 'The summary can be generated once every changed file has been reviewed.'
+                : `Summarizes the ${reviews.length} file review(s) and the commits into a verdict on whether ${comparison.head ?? 'the default branch'} is ready to release.`}
+            </p>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,36 +1,61 @@
 import React, { useState } from 'react';
-import type { AnalysisTask, RepoFileWithContent } from '../types';
+import type { AnalysisTask, AnalysisCoverage, GitHost, RepoSource } from '../types';
 import { Spinner } from './Spinner';
 import { PlusCircleIcon } from './icons/PlusCircleIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
-import { parseGitHubUrl } from '../services/githubService';
+import { parseRepoUrl } from '../services/gitService';
 import { LogViewer } from './LogViewer';
 import { AnalysisTaskItem } from './AnalysisTask';
 import { InfoIcon } from './icons/InfoIcon';
 import { ChevronIcon } from './icons/ChevronIcon';
+import { CoverageSummary } from './CoverageSummary';
 
 interface RepoAnalyzerProps {
   repoUrl: string;
+  source: RepoSource | null; // Ref and commit the analysis read, once the server has resolved them
+  gitHosts: GitHost[];
   analysisTasks: AnalysisTask[];
+  coverage: AnalysisCoverage | null;
   filesWithContent: Map<string, string>; // Changed from array to map
   currentlyProcessingFile: string | null;
   isLoading: boolean;
   logs: string[];
   onReset: () => void;
+  onCancel: () => void;
+  onRevealFile: (path: string) => void;
 }
 
-export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, analysisTasks, filesWithContent, currentlyProcessingFile, isLoading, logs, onReset }) => {
+export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, source, gitHosts, analysisTasks, coverage, filesWithContent, currentlyProcessingFile, isLoading, logs, onReset, onCancel, onRevealFile }) => {
   const [isLogViewerOpen, setIsLogViewerOpen] = useState(false);
 
   const handleExport = () => {
     if (analysisTasks.length === 0 || !repoUrl) return;
 
-    const parsedUrl = parseGitHubUrl(repoUrl);
+    const parsedUrl = parseRepoUrl(repoUrl, gitHosts);
     const repoName = parsedUrl ? parsedUrl.repo : 'repository';
     const date = new Date().toISOString().split('T')[0];
     const filename = `${repoName}-analysis-${date}.md`;
 
-    let markdownContent = `# Code Review Analysis for ${repoName}\n\n**Date:** ${date}\n\n---\n\n`;
+    let markdownContent = `# Code Review Analysis for ${repoName}\n\n**Date:** ${date}\n\n`;
+    if (source) {
+        markdownContent += `**Revision:** ${source.ref ?? 'default branch'} at commit \`${source.commit}\`\n\n`;
+    }
+
+    if (coverage) {
+        const total = coverage.filesIncluded + coverage.filesSkipped.length;
+        markdownContent += `**Coverage:** ${coverage.filesIncluded} of ${total} files (mode: ${coverage.mode}${coverage.batches !== undefined ? `, ${coverage.batches} digests` : ''})\n\n`;
+        if (coverage.filesSkipped.length > 0) {
+            markdownContent += `<details><summary>Skipped files (${coverage.filesSkipped.length})</summary>\n\n`;
+            markdownContent += coverage.filesSkipped.map(({ path, reason }) => `- \`${path}\`: ${reason}`).join('\n');
+            markdownContent += `\n\n</details>\n\n`;
+        }
+        if (coverage.redactions && coverage.redactions.length > 0) {
+            markdownContent += `<details><summary>Redacted secrets (${coverage.redactions.length})</summary>\n\n`;
+            markdownContent += coverage.redactions.map(({ path, line, title }) => `- \`${path}:${line}\`: ${title}`).join('\n');
+            markdownContent += `\n\n</details>\n\n`;
+        }
+    }
+    markdownContent += `---\n\n`;
 
     analysisTasks.forEach(task => {
         markdownContent += `## ${task.title}\n\n`;
@@ -65,8 +90,11 @@ export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, analysisTas
           subHeaderText = currentlyProcessingFile || '...';
       } else if (hasStartedTasks) {
           headerText = "Performing Analysis...";
-          const currentTask = analysisTasks.find(t => t.status === 'in_progress');
-          subHeaderText = currentTask ? currentTask.title : "Running analysis tasks...";
+          const runningTasks = analysisTasks.filter(t => t.status === 'in_progress');
+          const finishedCount = analysisTasks.filter(t => t.status === 'complete' || t.status === 'error').length;
+          subHeaderText = runningTasks.length > 0
+              ? `${finishedCount}/${analysisTasks.length} done · Running: ${runningTasks.map(t => t.title).join(', ')}`
+              : "Running analysis tasks...";
       } else {
           headerText = "Preparing Analysis...";
           subHeaderText = "Discovering all repository files...";
@@ -75,6 +103,9 @@ export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, analysisTas
       headerText = "Repository Architectural Analysis";
       subHeaderText = "Analysis complete.";
   }
+  if (source && !isProcessingContext) {
+      subHeaderText += ` · ${source.ref ?? 'default branch'} @ ${source.commit.slice(0, 7)}`;
+  }
 
   if (!isLoading && !hasStartedTasks) {
     return (
@@ -101,6 +132,14 @@ export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, analysisTas
             </div>
           </div>
           <div className="flex items-center space-x-2">
+              {isLoading && (
+                  <button
+                      onClick={onCancel}
+                      className="flex items-center space-x-2 border border-red-600 text-red-300 font-semibold rounded-md px-4 py-2 hover:bg-red-600/20 transition-colors duration-200"
+                  >
+                      <span>Cancel</span>
+                  </button>
+              )}
               <button
                   onClick={handleExport}
                   disabled={isLoading || analysisTasks.length === 0}
@@ -131,7 +170,11 @@ export const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ repoUrl, analysisTas
               </div>
           )}
           
-          {hasStartedTasks && analysisTasks.map(task => <AnalysisTaskItem key={task.id} task={task} />)}
+          {coverage && <CoverageSummary coverage={coverage} />}
+
+          {hasStartedTasks && analysisTasks.map(task => (
+              <AnalysisTaskItem key={task.id} task={task} filesWithContent={filesWithContent} onRevealFile={onRevealFile} />
+          ))}
       </div>
       
       {/* 3. Collapsible Log Viewer */}
@@ -1,20 +1,110 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { GitHost, GitTokenStatus, RepoLocation, RepoRefs } from '../types';
 import { Spinner } from './Spinner';
 
 interface RepoInputProps {
   repoUrl: string;
   setRepoUrl: (url: string) => void;
-  githubToken: string;
-  setGithubToken: (token: string) => void;
+  gitHosts: GitHost[];
+  repoLocation: RepoLocation | null; // The parsed repoUrl; null when it is not a repository or pull request on a known host
+  repoRefs: RepoRefs | null;
+  repoRef: string | null; // null for the default branch
+  onSelectRef: (ref: string | null) => void;
+  compareBase: string | null; // Ref the selected ref is compared with; null when browsing
+  onSelectCompareBase: (base: string | null) => void;
+  gitTokenStatus: GitTokenStatus | null;
+  onSaveGitToken: (token: string) => Promise<void>;
+  onRemoveGitToken: () => Promise<void>;
   isLoading: boolean;
 }
 
-export const RepoInput: React.FC<RepoInputProps> = ({ repoUrl, setRepoUrl, githubToken, setGithubToken, isLoading }) => {
+// Where to create a token for each provider, and what it needs to read repositories.
+const tokenHelp = ({ host, provider }: RepoLocation) => {
+  switch (provider) {
+    case 'github':
+      return {
+        placeholder: 'ghp_...',
+        url: host === 'github.com' ? 'https://github.com/settings/tokens?type=beta' : `https://${host}/settings/tokens`,
+        access: 'read access to repository contents (and write access to pull requests to post reviews)',
+      };
+    case 'gitlab':
+      return { placeholder: 'glpat-...', url: `https://${host}/-/user_settings/personal_access_tokens`, access: 'the `read_api` scope' };
+    case 'gitea':
+      return { placeholder: 'Access token', url: `https://${host}/user/settings/applications`, access: 'the `read:repository` scope' };
+    case 'bitbucket':
+      return {
+        placeholder: 'Access token or username:app-password',
+        url: 'https://bitbucket.org/account/settings/app-passwords/',
+        access: 'repository read permission',
+      };
+  }
+};
+
+export const RepoInput: React.FC<RepoInputProps> = ({ repoUrl, setRepoUrl, gitHosts, repoLocation, repoRefs, repoRef, onSelectRef, compareBase, onSelectCompareBase, gitTokenStatus, onSaveGitToken, onRemoveGitToken, isLoading }) => {
+  // The token is only held here until it has been handed to the server.
+  const [token, setToken] = useState('');
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Listed branches and tags are suggested, but any ref (e.g. a commit SHA) can be typed and applied with Enter.
+  const [refDraft, setRefDraft] = useState(repoRef ?? '');
+  const [baseDraft, setBaseDraft] = useState(compareBase ?? '');
+
+  useEffect(() => setRefDraft(repoRef ?? ''), [repoRef]);
+  useEffect(() => setBaseDraft(compareBase ?? ''), [compareBase]);
+
+  const isListedRef = (value: string) => !!repoRefs && (repoRefs.branches.includes(value) || repoRefs.tags.includes(value));
+
+  const applyRef = (value: string) => {
+    const ref = value.trim() || null;
+    if (ref !== repoRef) onSelectRef(ref);
+  };
+
+  const handleRefChange = (value: string) => {
+    setRefDraft(value);
+    // Picking a suggestion applies it right away.
+    if (isListedRef(value)) applyRef(value);
+  };
+
+  const applyBase = (value: string) => {
+    const base = value.trim() || null;
+    if (base !== compareBase) onSelectCompareBase(base);
+  };
+
+  const handleBaseChange = (value: string) => {
+    setBaseDraft(value);
+    if (isListedRef(value)) applyBase(value);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSaveGitToken(token.trim());
+      setToken('');
+      setTokenError(null);
+    } catch (err) {
+      setTokenError(err instanceof Error ? err.message : 'Failed to save the token.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await onRemoveGitToken();
+      setTokenError(null);
+    } catch (err) {
+      setTokenError(err instanceof Error ? err.message : 'Failed to remove the token.');
+    }
+  };
+
+  const help = repoLocation && tokenHelp(repoLocation);
+
   return (
     <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700 space-y-4">
       <div>
         <label htmlFor="repoUrl" className="block text-sm font-medium text-gray-400 mb-1">
-          GitHub Repository URL
+          Repository URL
         </label>
         <div className="relative">
           <input
@@ -22,7 +112,7 @@ export const RepoInput: React.FC<RepoInputProps> = ({ repoUrl, setRepoUrl, githu
             type="text"
             value={repoUrl}
             onChange={(e) => setRepoUrl(e.target.value)}
-            placeholder="https://github.com/owner/repo"
+            placeholder="https://github.com/owner/repo or a pull request URL"
             className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition pr-10"
             disabled={isLoading}
           />
@@ -32,34 +122,116 @@ export const RepoInput: React.FC<RepoInputProps> = ({ repoUrl, setRepoUrl, githu
               </div>
           )}
         </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {!repoLocation
+            ? `Supported hosts: ${gitHosts.map(({ host }) => host).join(', ')}`
+            : repoLocation.pullNumber !== null
+              ? `${repoLocation.label} pull request ${repoLocation.owner}/${repoLocation.repo}#${repoLocation.pullNumber}`
+              : `${repoLocation.label} repository ${repoLocation.owner}/${repoLocation.repo}`}
+        </p>
       </div>
-       <div>
-        <label htmlFor="githubToken" className="block text-sm font-medium text-gray-400 mb-1">
-          GitHub Personal Access Token (Optional)
-        </label>
-        <div className="relative">
+      {/* A pull request is always read at its head commit. */}
+      {repoLocation && repoLocation.pullNumber === null && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyRef(refDraft);
+          }}
+        >
+          <label htmlFor="repoRef" className="block text-sm font-medium text-gray-400 mb-1">
+            Branch, Tag or Commit
+          </label>
           <input
-            id="githubToken"
-            type="password"
-            value={githubToken}
-            onChange={(e) => setGithubToken(e.target.value)}
-            placeholder="ghp_..."
+            id="repoRef"
+            type="text"
+            list="repoRefOptions"
+            value={refDraft}
+            onChange={(e) => handleRefChange(e.target.value)}
+            onBlur={() => applyRef(refDraft)}
+            placeholder={repoRefs ? `${repoRefs.defaultBranch} (default branch)` : 'Default branch'}
             className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
             disabled={isLoading}
           />
-        </div>
+          <datalist id="repoRefOptions">
+            {repoRefs?.branches.map(name => <option key={`branch:${name}`} value={name}>branch</option>)}
+            {repoRefs?.tags.map(name => <option key={`tag:${name}`} value={name}>tag</option>)}
+          </datalist>
+        </form>
+      )}
+      {repoLocation && repoLocation.pullNumber === null && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyBase(baseDraft);
+          }}
+        >
+          <label htmlFor="compareBase" className="block text-sm font-medium text-gray-400 mb-1">
+            Compare With (Optional)
+          </label>
+          <input
+            id="compareBase"
+            type="text"
+            list="repoRefOptions"
+            value={baseDraft}
+            onChange={(e) => handleBaseChange(e.target.value)}
+            onBlur={() => applyBase(baseDraft)}
+            placeholder="Base branch, tag or commit, e.g. the last release"
+            className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
+            disabled={isLoading}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {compareBase
+              ? `Reviewing what ${repoRef ?? 'the default branch'} changes since ${compareBase}. Clear the field to browse again.`
+              : 'Review the commits and changes since this ref instead of browsing the repository.'}
+          </p>
+        </form>
+      )}
+      {repoLocation && help && (
+       <div>
+        <label htmlFor="gitToken" className="block text-sm font-medium text-gray-400 mb-1">
+          {repoLocation.label} Access Token (Optional)
+        </label>
+        {gitTokenStatus?.source === 'session' ? (
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span>Using the token of <strong>{gitTokenStatus.login}</strong></span>
+            <button onClick={handleRemove} className="text-purple-400 hover:underline">Remove</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSave} className="flex gap-2">
+            <input
+              id="gitToken"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder={help.placeholder}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
+              disabled={isLoading || isSaving}
+            />
+            <button
+              type="submit"
+              disabled={isLoading || isSaving || !token.trim()}
+              className="px-3 py-2 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Save
+            </button>
+          </form>
+        )}
+        {tokenError && <p className="text-xs text-red-400 mt-2">{tokenError}</p>}
          <p className="text-xs text-gray-500 mt-2">
-            Provide a token to avoid GitHub API rate limits. 
+            {gitTokenStatus?.source === 'server' && 'The server has a token of its own; a token saved here is used instead. '}
+            The token is checked with {repoLocation.label} and kept on the server for this session only; it is never stored in the browser.
+            Provide one for private repositories and to avoid API rate limits. 
             <a 
-                href="https://github.com/settings/tokens?type=beta" 
+                href={help.url} 
                 target="_blank" 
                 rel="noopener noreferrer"
                 className="text-purple-400 hover:underline"
             >
              Create one here
-            </a> with `public_repo` access.
+            </a> with {help.access}.
         </p>
       </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
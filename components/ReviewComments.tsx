@@ -1,44 +1,124 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { marked } from 'marked';
-import type { ReviewState } from '../types';
+import type { ReviewState, ReviewFinding, FindingSeverity } from '../types';
 import { WandIcon } from './icons/WandIcon';
-import { CODE_SEPARATOR } from '../utils/constants';
+import { FINDING_SEVERITIES } from '../utils/constants';
 
 interface ReviewCommentsProps {
   state: ReviewState;
   containerRef?: React.RefObject<HTMLDivElement>;
 }
 
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-700/40 text-red-300 border-red-600',
+  high: 'bg-orange-700/40 text-orange-300 border-orange-600',
+  medium: 'bg-yellow-700/40 text-yellow-300 border-yellow-600',
+  low: 'bg-blue-700/40 text-blue-300 border-blue-600',
+  info: 'bg-gray-700/40 text-gray-300 border-gray-600',
+};
+
+const formatLineRange = (finding: ReviewFinding) =>
+  finding.startLine === finding.endLine ? `L${finding.startLine}` : `L${finding.startLine}-${finding.endLine}`;
+
+const FindingItem: React.FC<{ finding: ReviewFinding }> = ({ finding }) => (
+  <li className="not-prose border border-gray-700 rounded-md p-3 bg-gray-900/40">
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className={`text-xs uppercase font-semibold px-2 py-0.5 rounded border ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+      <span className="text-xs text-gray-400 font-mono">{finding.category}</span>
+      {/* The data-lines attribute is picked up by CodeReviewer's click handler to highlight the diff. */}
+      <span
+        data-lines={`${finding.startLine}-${finding.endLine}`}
+        className="cursor-pointer bg-purple-600/30 hover:bg-purple-600/50 text-purple-300 font-mono text-xs px-1.5 py-0.5 rounded-md transition-colors"
+      >
+        {formatLineRange(finding)}
+      </span>
+    </div>
+    <h4 className="mt-2 font-semibold text-gray-200">{finding.title}</h4>
+    <div className="prose prose-invert prose-sm max-w-none mt-1" dangerouslySetInnerHTML={{ __html: marked.parse(finding.explanation) }} />
+    {finding.suggestedReplacement && (
+      <pre className="mt-2 p-2 bg-gray-900 rounded text-xs text-green-300 overflow-x-auto">{finding.suggestedReplacement}</pre>
+    )}
+  </li>
+);
+
 export const ReviewComments: React.FC<ReviewCommentsProps> = ({ state, containerRef }) => {
+  const [severityFilter, setSeverityFilter] = useState<Set<FindingSeverity>>(new Set(FINDING_SEVERITIES));
   const isStreaming = state.status === 'streaming';
-  
+  const findings = state.result?.findings ?? [];
+
   const getHeaderText = () => {
     if (isStreaming) return "Gemini's thought process...";
-    return "Review Comments"; 
+    return `Review Comments${state.result ? ` (${findings.length})` : ''}`;
   };
-  
-  const getCommentsToParse = () => {
-    const rawText = (state.status === 'complete' && state.result)
-      ? state.result.reviewComments
-      : state.streamedComments.split(CODE_SEPARATOR)[0];
 
-    return marked.parse(rawText);
+  const toggleSeverity = (severity: FindingSeverity) => {
+    setSeverityFilter(prev => {
+      const next = new Set(prev);
+      if (next.has(severity)) next.delete(severity);
+      else next.add(severity);
+      return next;
+    });
   };
 
+  const countsBySeverity = FINDING_SEVERITIES.map(severity => ({
+    severity,
+    count: findings.filter(f => f.severity === severity).length,
+  }));
+
+  const visibleFindings = findings
+    .filter(f => severityFilter.has(f.severity))
+    .sort((a, b) => FINDING_SEVERITIES.indexOf(a.severity) - FINDING_SEVERITIES.indexOf(b.severity) || a.startLine - b.startLine);
+
   return (
     <div className="h-full flex flex-col bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
       <h3 className="text-lg font-semibold p-4 border-b border-gray-700 bg-gray-800/80 flex items-center gap-2 text-gray-300 flex-shrink-0">
         {isStreaming && <WandIcon className="w-5 h-5 animate-pulse text-purple-400" />}
         {getHeaderText()}
       </h3>
-      <div 
+      {state.result && findings.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-4 py-2 border-b border-gray-700 flex-shrink-0">
+          {countsBySeverity.map(({ severity, count }) => (
+            <button
+              key={severity}
+              onClick={() => toggleSeverity(severity)}
+              disabled={count === 0}
+              className={`text-xs px-2 py-0.5 rounded border transition-opacity disabled:opacity-30 disabled:cursor-not-allowed ${SEVERITY_STYLES[severity]} ${severityFilter.has(severity) ? '' : 'opacity-40'}`}
+              title={`Show or hide ${severity} findings`}
+            >
+              {severity} ({count})
+            </button>
+          ))}
+        </div>
+      )}
+      <div
         ref={containerRef}
-        className="p-4 prose prose-invert max-w-none prose-pre:bg-gray-900 prose-span:cursor-pointer prose-span:bg-purple-600/30 prose-span:hover:bg-purple-600/50 prose-span:text-purple-300 prose-span:font-mono prose-span:px-1.5 prose-span:py-0.5 prose-span:rounded-md prose-span:mx-1 prose-span:transition-colors overflow-y-auto"
+        className="p-4 prose prose-invert max-w-none prose-pre:bg-gray-900 overflow-y-auto"
       >
-        <div dangerouslySetInnerHTML={{ __html: getCommentsToParse() }} />
-        {isStreaming && <span className="inline-block w-2.5 h-5 bg-purple-400 animate-pulse ml-1 align-bottom" />}
+        {isStreaming && (
+          <p className="text-sm text-gray-400 font-mono">
+            Receiving structured review... ({state.streamedResponse.length} characters)
+            <span className="inline-block w-2.5 h-5 bg-purple-400 animate-pulse ml-1 align-bottom" />
+            {state.statusMessage && <span className="block mt-2 text-yellow-400">{state.statusMessage}</span>}
+          </p>
+        )}
+        {state.result && (
+          <>
+            <div dangerouslySetInnerHTML={{ __html: marked.parse(state.result.reviewComments) }} />
+            {findings.length === 0 ? (
+              <p className="text-green-400">No issues found.</p>
+            ) : (
+              <ul className="not-prose space-y-3 mt-4">
+                {visibleFindings.map((finding, index) => <FindingItem key={`${finding.startLine}-${index}`} finding={finding} />)}
+              </ul>
+            )}
+            {state.result.prompt && (
+              <p className="not-prose mt-4 text-xs text-gray-500 font-mono">
+                Prompt {state.result.prompt.id} v{state.result.prompt.version} · profile {state.result.prompt.profile}
+              </p>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
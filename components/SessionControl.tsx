@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ApiSession } from '../types';
+import { getSession, signIn, signOut, UNAUTHORIZED_EVENT } from '../services/apiClient';
+import { clearRepoCache } from '../services/repoCache';
+
+interface SessionControlProps {
+  onSessionChange: () => void; // Called after signing in or out, so data that needs a session can be reloaded
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+// Shows who is signed in and the remaining token budget, or an API key form when the server requires one.
+// The browser cache may hold private repositories, which are not to be readable once the session ends.
+const forgetCachedRepos = () => clearRepoCache().catch(err => console.warn('Could not clear the repository cache:', err));
+
+export const SessionControl: React.FC<SessionControlProps> = ({ onSessionChange }) => {
+  const [session, setSession] = useState<ApiSession | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSession(await getSession());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the session.');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Any 401 (e.g. an expired session) brings the sign-in form back, and drops the cached repositories.
+    const handleUnauthorized = () => {
+      forgetCachedRepos();
+      refresh();
+    };
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, [refresh]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await signIn(apiKey.trim());
+      setApiKey('');
+      setError(null);
+      await refresh();
+      onSessionChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      await forgetCachedRepos();
+      await refresh();
+      onSessionChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out.');
+    }
+  };
+
+  if (!session) return error ? <p className="text-xs text-red-400">{error}</p> : null;
+
+  const usage = session.usage?.limit != null && (
+    <span className="text-xs text-gray-400" title="Estimated model tokens used today (UTC)">
+      {formatTokens(session.usage.used)} / {formatTokens(session.usage.limit)} tokens today
+    </span>
+  );
+
+  if (session.authRequired && !session.authenticated) {
+    return (
+      <form onSubmit={handleSignIn} className="flex items-center gap-2">
+        {error && <span className="text-xs text-red-400 max-w-xs truncate" title={error}>{error}</span>}
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          aria-label="API key"
+          className="bg-gray-900 border border-gray-600 rounded-md px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition"
+          disabled={isSubmitting}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !apiKey.trim()}
+          className="px-3 py-1.5 text-sm font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          Sign in
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-300">
+      {usage}
+      {session.client && (
+        <>
+          <span>Signed in as <strong>{session.client}</strong></span>
+          <button onClick={handleSignOut} className="text-purple-400 hover:underline">Sign out</button>
+        </>
+      )}
+    </div>
+  );
+};
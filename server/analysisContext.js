@@ -0,0 +1,163 @@
+import { runWithConcurrency } from './workerPool.js';
+import { formatRetryMessage } from '../utils/retry.js';
+import { createBoundary, sanitizeFileName } from './promptSafety.js';
+
+// Builds the codebase context the analysis tasks run against.
+//
+// Small repositories are sent verbatim. When the files exceed the context limit and map-reduce
+// is enabled, files are grouped into batches per package/directory, each batch is summarized
+// into a digest, and the tasks run over the digests instead. Truncation (first N files that fit)
+// is the fallback when map-reduce is disabled or the digests themselves still do not fit.
+
+// Files whose presence marks the root of a package; batches never span two packages.
+const PACKAGE_MANIFESTS = new Set([
+    'package.json', 'go.mod', 'Cargo.toml', 'pyproject.toml', 'setup.py', 'pom.xml',
+    'build.gradle', 'build.gradle.kts', 'composer.json', 'Gemfile', 'mix.exs', 'pubspec.yaml',
+]);
+
+const dirname = (path) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+const basename = (path) => path.slice(path.lastIndexOf('/') + 1);
+
+const formatFile = (file) => `// FILE: ${sanitizeFileName(file.path)}\n${file.content}\n\n---\n\n`;
+
+// Longest common directory of a list of paths, or '' for the repository root.
+const commonDirectory = (paths) => {
+    const dirs = paths.map(p => dirname(p).split('/').filter(Boolean));
+    const common = [];
+    for (let i = 0; dirs.every(d => i < d.length && d[i] === dirs[0][i]); i++) {
+        common.push(dirs[0][i]);
+    }
+    return common.join('/');
+};
+
+// Groups files into batches of at most `maxChars` of formatted content. Files are ordered by path so
+// each directory stays together, and a new batch starts whenever the enclosing package changes.
+// Files that are larger than a whole batch on their own are returned in `oversized`.
+export const groupFilesIntoBatches = (files, maxChars) => {
+    const packageRoots = files
+        .filter(f => PACKAGE_MANIFESTS.has(basename(f.path)))
+        .map(f => dirname(f.path))
+        .sort((a, b) => b.length - a.length); // Deepest first so the closest root wins
+    const packageOf = (path) => packageRoots.find(root => root === '' || path.startsWith(`${root}/`)) ?? '';
+
+    const batches = [];
+    const oversized = [];
+    let current = null;
+
+    for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+        const size = formatFile(file).length;
+        if (size > maxChars) {
+            oversized.push(file);
+            continue;
+        }
+        const pkg = packageOf(file.path);
+        if (!current || current.packageRoot !== pkg || current.chars + size > maxChars) {
+            current = { packageRoot: pkg, files: [], chars: 0 };
+            batches.push(current);
+        }
+        current.files.push(file);
+        current.chars += size;
+    }
+
+    return {
+        batches: batches.map(batch => ({
+            label: commonDirectory(batch.files.map(f => f.path)) || '/',
+            files: batch.files,
+        })),
+        oversized,
+    };
+};
+
+// Takes items in order while their formatted size fits in `limit`. Always keeps at least the first item.
+const takeWithinLimit = (items, format, limit) => {
+    let total = 0;
+    let count = 0;
+    for (const item of items) {
+        const size = format(item).length;
+        if (count > 0 && total + size > limit) break;
+        total += size;
+        count++;
+    }
+    return { taken: items.slice(0, count), rest: items.slice(count) };
+};
+
+const formatDigest = (digest) =>
+    `// DIGEST: ${digest.label} (${digest.files.length} files: ${digest.files.map(f => f.path).join(', ')})\n${digest.text}\n\n---\n\n`;
+
+/**
+ * Returns { context, description, coverage } where `context` is the text placed after the task prompts,
+ * `description` tells the model what kind of context it is, and `coverage` matches AnalysisCoverage in types.ts.
+ * `skipped` lists files that never made it this far (fetch errors, file limit), as { path, reason }.
+ * `prompts` is the prompt registry; batch digests use its "digest" prompt.
+ */
+export const buildAnalysisContext = async ({ llm, prompts, files, skipped = [], mapReduce, contextCharLimit, batchCharLimit, concurrency = 1, signal, onProgress }) => {
+    const totalChars = files.reduce((sum, f) => sum + formatFile(f).length, 0);
+
+    const truncate = (reason) => {
+        const { taken, rest } = takeWithinLimit(files, formatFile, contextCharLimit);
+        onProgress?.(`[SYSTEM] Context limit of ${contextCharLimit} characters reached. Analyzing the first ${taken.length} files.`);
+        return {
+            context: taken.map(formatFile).join(''),
+            description: 'Codebase',
+            coverage: {
+                mode: 'truncated',
+                filesIncluded: taken.length,
+                filesSkipped: [...skipped, ...rest.map(f => ({ path: f.path, reason }))],
+            },
+        };
+    };
+
+    if (totalChars <= contextCharLimit) {
+        return {
+            context: files.map(formatFile).join(''),
+            description: 'Codebase',
+            coverage: { mode: 'full', filesIncluded: files.length, filesSkipped: skipped },
+        };
+    }
+
+    if (!mapReduce) return truncate('context limit reached');
+
+    const { batches, oversized } = groupFilesIntoBatches(files, batchCharLimit);
+    const mapSkipped = [...skipped, ...oversized.map(f => ({ path: f.path, reason: `larger than the ${batchCharLimit} character batch limit` }))];
+    onProgress?.(`Repository is too large for a single context (${totalChars} characters). Summarizing ${batches.length} batches of files...`);
+
+    const results = await runWithConcurrency(batches, concurrency, async (batch, index) => {
+        onProgress?.(`Summarizing batch ${index + 1}/${batches.length}: ${batch.label} (${batch.files.length} files)`);
+        const onRetry = (info) => onProgress?.(formatRetryMessage(`summary of ${batch.label}`, info));
+        const files = batch.files.map(formatFile).join('');
+        const prompt = await prompts.render('digest', { label: sanitizeFileName(batch.label), files, boundary: createBoundary(files) });
+        const text = await llm.generate(prompt.text, { tier: 'fast', signal, onRetry });
+        return { ...batch, text };
+    }, { signal });
+    signal?.throwIfAborted();
+
+    const digests = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            digests.push(result.value);
+            return;
+        }
+        const batch = batches[index];
+        const errorMessage = result.reason instanceof Error ? result.reason.message : 'Unknown error';
+        onProgress?.(`[ERROR] Failed to summarize batch ${batch.label}: ${errorMessage}`);
+        mapSkipped.push(...batch.files.map(f => ({ path: f.path, reason: `summarization failed: ${errorMessage}` })));
+    });
+
+    if (digests.length === 0) return truncate('context limit reached and summarization failed');
+
+    const { taken, rest } = takeWithinLimit(digests, formatDigest, contextCharLimit);
+    if (rest.length > 0) {
+        onProgress?.(`[SYSTEM] Digests exceed the context limit of ${contextCharLimit} characters. Using the first ${taken.length} of ${digests.length}.`);
+    }
+
+    return {
+        context: taken.map(formatDigest).join(''),
+        description: 'Codebase digests (each summarizes a group of files; full file contents are not available)',
+        coverage: {
+            mode: 'map_reduce',
+            filesIncluded: taken.reduce((sum, d) => sum + d.files.length, 0),
+            filesSkipped: [...mapSkipped, ...rest.flatMap(d => d.files.map(f => ({ path: f.path, reason: 'digest context limit reached' })))],
+            batches: taken.length,
+        },
+    };
+};
@@ -0,0 +1,85 @@
+import { parseStructuredResponse } from './structuredOutput.js';
+
+// Structured output types for analysis tasks. Each entry describes the JSON the model must return,
+// how to turn it into the AnalysisTaskResult sent to the client (see types.ts), and how to render it
+// as markdown so the task content and exported reports stay readable.
+export const ANALYSIS_RESULT_TYPES = {
+    dependency_review: {
+        schema: {
+            type: 'object',
+            properties: {
+                analysis: { type: 'string', description: 'Markdown analysis of languages, frameworks and key libraries.' },
+                suggestions: { type: 'array', items: { type: 'string' }, description: 'Concrete dependency or tooling recommendations.' },
+            },
+            required: ['analysis', 'suggestions'],
+            additionalProperties: false,
+        },
+        instructions: 'Respond with a JSON object with "analysis" (markdown) and "suggestions" (an array of short recommendations).',
+        toResult: (data) => data,
+        toMarkdown: (data) => [
+            data.analysis,
+            data.suggestions.length > 0 ? `\n**Suggestions:**\n\n${data.suggestions.map(s => `- ${s}`).join('\n')}` : '',
+        ].join('\n'),
+    },
+    error_trends: {
+        schema: {
+            type: 'object',
+            properties: {
+                trends: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            trendDescription: { type: 'string' },
+                            filesAffected: { type: 'array', items: { type: 'string' }, description: 'Exact file paths from the codebase.' },
+                        },
+                        required: ['trendDescription', 'filesAffected'],
+                        additionalProperties: false,
+                    },
+                },
+            },
+            required: ['trends'],
+            additionalProperties: false,
+        },
+        instructions: 'Respond with a JSON object with "trends": an array of { "trendDescription" (markdown), "filesAffected" (exact file paths as given after "// FILE:") }.',
+        toResult: (data) => data.trends,
+        toMarkdown: (trends) => trends
+            .map((trend, i) => `### Trend ${i + 1}\n\n${trend.trendDescription}\n\n**Files affected:** ${trend.filesAffected.map(f => `\`${f}\``).join(', ') || 'none'}`)
+            .join('\n\n'),
+    },
+    suggested_fixes: {
+        schema: {
+            type: 'object',
+            properties: {
+                fixes: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            filePath: { type: 'string', description: 'Exact path of the file to change.' },
+                            description: { type: 'string' },
+                            correctedCode: { type: 'string', description: 'The complete new content of the file, not a fragment.' },
+                        },
+                        required: ['filePath', 'description', 'correctedCode'],
+                        additionalProperties: false,
+                    },
+                },
+            },
+            required: ['fixes'],
+            additionalProperties: false,
+        },
+        instructions: 'Respond with a JSON object with "fixes": an array of { "filePath" (exact path as given after "// FILE:"), "description" (markdown), "correctedCode" (the complete new content of that file) }.',
+        toResult: (data) => data.fixes,
+        toMarkdown: (fixes) => fixes
+            .map((fix, i) => `### ${i + 1}. \`${fix.filePath}\`\n\n${fix.description}`)
+            .join('\n\n'),
+    },
+};
+
+// Validates a raw model response for the given result type and returns { result, markdown }.
+export const parseAnalysisResult = (kind, text) => {
+    const resultType = ANALYSIS_RESULT_TYPES[kind];
+    const data = parseStructuredResponse(text, resultType.schema, kind);
+    const result = resultType.toResult(data);
+    return { result: { kind, data: result }, markdown: resultType.toMarkdown(result) };
+};
@@ -0,0 +1,68 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, basename } from 'node:path';
+import { ANALYSIS_RESULT_TYPES } from './analysisResults.js';
+import { validateStructuredData } from './structuredOutput.js';
+import { renderTemplate } from './promptRegistry.js';
+
+// Analysis tasks are defined as JSON files in a config directory (ANALYSIS_TASKS_DIR), one task per file,
+// ordered by file name. The directory is re-read for every request, so edits take effect without a restart.
+//
+// A task has a title, a prompt template and an output type: "markdown" (streamed free-form text) or one of the
+// structured ANALYSIS_RESULT_TYPES. Templates may use {{repo}} (owner/repo), {{rules}} (the repository's review
+// rules, see repoRules.js) and {{context}} (the codebase or its digests); rules and context are appended when
+// the template does not place them.
+
+export const ANALYSIS_OUTPUT_TYPES = ['markdown', ...Object.keys(ANALYSIS_RESULT_TYPES)];
+
+const TASK_DEFINITION_SCHEMA = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        prompt: { type: 'string', minLength: 1 },
+        outputType: { enum: ANALYSIS_OUTPUT_TYPES },
+        enabledByDefault: { type: 'boolean' },
+    },
+    required: ['title', 'prompt', 'outputType'],
+    additionalProperties: false,
+};
+
+// Returns the valid task definitions. Invalid files are logged and skipped so one typo does not break analysis.
+export const loadAnalysisTasks = async (dir) => {
+    let fileNames;
+    try {
+        fileNames = (await readdir(dir)).filter(name => name.endsWith('.json')).sort();
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const tasks = [];
+    for (const fileName of fileNames) {
+        try {
+            const data = validateStructuredData(JSON.parse(await readFile(join(dir, fileName), 'utf-8')), TASK_DEFINITION_SCHEMA, 'task', fileName);
+            const id = data.id ?? basename(fileName, '.json');
+            if (tasks.some(task => task.id === id)) throw new Error(`Duplicate task id "${id}".`);
+            tasks.push({ ...data, id, enabledByDefault: data.enabledByDefault ?? true });
+        } catch (error) {
+            console.warn(`Skipping analysis task ${fileName}: ${error.message}`);
+        }
+    }
+    return tasks;
+};
+
+// Picks the requested tasks in config order, or the default ones if `taskIds` is not given. Throws on unknown ids.
+export const selectAnalysisTasks = (tasks, taskIds) => {
+    if (!taskIds) return tasks.filter(task => task.enabledByDefault);
+    const unknown = taskIds.filter(id => !tasks.some(task => task.id === id));
+    if (unknown.length > 0) throw new Error(`Unknown analysis task(s): ${unknown.join(', ')}.`);
+    return tasks.filter(task => taskIds.includes(task.id));
+};
+
+export const renderTaskPrompt = (task, { repo, context, rules = '' }) => {
+    let template = task.prompt;
+    if (!template.includes('{{rules}}') && rules) template += '\n\n{{rules}}';
+    if (!template.includes('{{context}}')) template += '\n\n{{context}}';
+    return renderTemplate(template, { repo, context, rules }, `analysis task "${task.id}"`);
+};
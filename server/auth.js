@@ -0,0 +1,112 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Client authentication for the API. Clients are identified by API keys configured in API_KEYS
+// ("name:key" pairs, comma-separated). Scripts send the key as `Authorization: Bearer <key>` or `X-API-Key`;
+// the browser exchanges it once for an HttpOnly session cookie (POST /api/session) so the key is not kept
+// in page memory. Without API_KEYS, authentication is off and clients are told apart by IP address only.
+
+export const SESSION_COOKIE = 'cr_session';
+
+// Parses API_KEYS. A key without a name is named after its position ("client-1").
+export const parseApiKeys = (value = '') =>
+    value.split(',').map(entry => entry.trim()).filter(Boolean).map((entry, index) => {
+        const separator = entry.indexOf(':');
+        return separator > 0
+            ? { name: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() }
+            : { name: `client-${index + 1}`, key: entry };
+    });
+
+export const readCookie = (req, name) => {
+    for (const part of (req.get('Cookie') ?? '').split(';')) {
+        const separator = part.indexOf('=');
+        if (separator > 0 && part.slice(0, separator).trim() === name) return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+    return null;
+};
+
+const safeEqual = (a, b) => {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const readPresentedKey = (req) => {
+    const authorization = req.get('Authorization') ?? '';
+    if (authorization.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+    return req.get('X-API-Key') ?? null;
+};
+
+/**
+ * Creates the authenticator. `identify(req)` returns the client name, or null when the request is not
+ * authenticated; with authentication off it returns `ip:<address>`. Sessions live in memory and end after
+ * `sessionTtlMs` or a server restart. `onSessionEnd(sessionId)` lets other modules drop per-session state.
+ */
+export const createAuthenticator = ({ apiKeys, sessionTtlMs, onSessionEnd }) => {
+    const sessions = new Map(); // id -> { client, expiresAt }
+    const enabled = apiKeys.length > 0;
+
+    const findClient = (key) => apiKeys.find(entry => safeEqual(entry.key, key))?.name ?? null;
+
+    const endSession = (id) => {
+        if (sessions.delete(id)) onSessionEnd?.(id);
+    };
+
+    const openSession = (client, secure) => {
+        const now = Date.now();
+        for (const [id, session] of sessions) {
+            if (session.expiresAt <= now) endSession(id);
+        }
+        const id = randomBytes(32).toString('base64url');
+        sessions.set(id, { client, expiresAt: now + sessionTtlMs });
+        const maxAge = Math.floor(sessionTtlMs / 1000);
+        return { id, cookie: `${SESSION_COOKIE}=${id}; Path=/api; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure ? '; Secure' : ''}` };
+    };
+
+    const getSession = (req) => {
+        const id = readCookie(req, SESSION_COOKIE);
+        const session = id && sessions.get(id);
+        if (!session) return null;
+        if (session.expiresAt <= Date.now()) {
+            endSession(id);
+            return null;
+        }
+        return { id, ...session };
+    };
+
+    return {
+        enabled,
+        getSession,
+
+        identify(req) {
+            if (!enabled) return `ip:${req.ip}`;
+            const key = readPresentedKey(req);
+            if (key) return findClient(key);
+            return getSession(req)?.client ?? null;
+        },
+
+        // Creates a session for a valid key and returns its cookie header value, or null for an invalid key.
+        createSession(key, { secure }) {
+            const client = typeof key === 'string' && findClient(key);
+            return client ? openSession(client, secure).cookie : null;
+        },
+
+        // Returns the id of the request's session, opening one for `client` if there is none (also when
+        // authentication is off). `cookie` is only set for a new session and must be sent with the response.
+        ensureSession(req, client, { secure }) {
+            const session = getSession(req);
+            return session ? { id: session.id, cookie: null } : openSession(client, secure);
+        },
+
+        // Ends the request's session and returns the cookie header value that clears it.
+        destroySession(req) {
+            const id = readCookie(req, SESSION_COOKIE);
+            if (id) endSession(id);
+            return `${SESSION_COOKIE}=; Path=/api; HttpOnly; SameSite=Strict; Max-Age=0`;
+        },
+    };
+};
+
+// Origin check for browser requests. Requests without an Origin header (same-origin GETs, scripts) pass;
+// authentication still applies to them. `*` allows every origin.
+export const createOriginCheck = (allowedOrigins) => (origin) =>
+    !origin || allowedOrigins.includes('*') || allowedOrigins.includes(origin);
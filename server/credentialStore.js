@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+// Keeps credentials submitted by users (their Git host tokens) on the server, per session and name (the host),
+// so they never have to be stored in the browser or sent with every request. Values are encrypted with
+// AES-256-GCM under a key that only exists in this process, so logging or serializing the store by accident does
+// not reveal them, and they are gone after a restart. This is no protection against reading the process memory:
+// the key lives there too, and a token is a plain string while a request uses it.
+
+export const createCredentialStore = () => {
+    const key = randomBytes(32);
+    const sessions = new Map(); // sessionId -> Map(name -> { iv, tag, data, info })
+
+    return {
+        // `info` is non-secret metadata returned by `info()`, e.g. the login the token belongs to.
+        set(sessionId, name, value, info = {}) {
+            const iv = randomBytes(12);
+            const cipher = createCipheriv('aes-256-gcm', key, iv);
+            const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+            if (!sessions.has(sessionId)) sessions.set(sessionId, new Map());
+            sessions.get(sessionId).set(name, { iv, tag: cipher.getAuthTag(), data, info });
+        },
+
+        get(sessionId, name) {
+            const entry = sessions.get(sessionId)?.get(name);
+            if (!entry) return null;
+            const decipher = createDecipheriv('aes-256-gcm', key, entry.iv);
+            decipher.setAuthTag(entry.tag);
+            return Buffer.concat([decipher.update(entry.data), decipher.final()]).toString('utf8');
+        },
+
+        info(sessionId, name) {
+            return sessions.get(sessionId)?.get(name)?.info ?? null;
+        },
+
+        delete(sessionId, name) {
+            sessions.get(sessionId)?.delete(name);
+        },
+
+        deleteSession(sessionId) {
+            sessions.delete(sessionId);
+        },
+    };
+};
@@ -0,0 +1,78 @@
+// Server-Sent Events helpers and the buffered event session behind every job's event stream.
+//
+// Every event of a session is stored with a monotonically increasing id (its 1-based position). A client
+// whose connection drops reconnects with `Last-Event-ID` and gets everything after that id replayed
+// before the live events continue. The final event of a session is always `{ type: 'done' }`.
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Writes the SSE response headers. Compression and proxy buffering would hold events back.
+export const startEventStream = (res) => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders?.();
+};
+
+// The SSE `event:` name is the event's `type`, the `data:` line its JSON (which never contains newlines).
+export const writeSseEvent = (res, event, id) => {
+    if (res.writableEnded || res.destroyed) return;
+    const idLine = id === undefined ? '' : `id: ${id}\n`;
+    res.write(`${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+};
+
+/**
+ * Creates an event session around `events`, which is appended to in place so the owner can persist it.
+ * A session restored from storage is created with `finished: true` and only replays.
+ */
+export const createEventSession = ({ events = [], finished = false, onEvent } = {}) => {
+    const clients = new Set();
+
+    const session = {
+        get finished() { return finished; },
+
+        emit(event) {
+            if (finished) return;
+            events.push(event);
+            for (const res of clients) writeSseEvent(res, event, events.length);
+            onEvent?.(event);
+        },
+
+        // Replays everything after `lastEventId`, then keeps `res` subscribed until it closes or the session ends.
+        attach(res, lastEventId = 0) {
+            startEventStream(res);
+            events.slice(lastEventId).forEach((event, index) => writeSseEvent(res, event, lastEventId + index + 1));
+            if (finished) {
+                res.end();
+                return;
+            }
+            clients.add(res);
+            const heartbeat = setInterval(() => {
+                if (!res.writableEnded) res.write(': heartbeat\n\n');
+            }, HEARTBEAT_INTERVAL_MS);
+            res.on('close', () => {
+                clearInterval(heartbeat);
+                clients.delete(res);
+            });
+        },
+
+        // Sends the terminal `done` event and closes all connections.
+        finish() {
+            if (finished) return;
+            session.emit({ type: 'done' });
+            finished = true;
+            for (const res of clients) res.end();
+            clients.clear();
+        },
+    };
+
+    return session;
+};
+
+// Parses the `Last-Event-ID` header; anything that is not a non-negative integer replays from the start.
+export const parseLastEventId = (value) => {
+    const id = Number.parseInt(value ?? '', 10);
+    return Number.isNaN(id) || id < 0 ? 0 : id;
+};
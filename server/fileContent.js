@@ -0,0 +1,69 @@
+// Reading repository files as text. Every download of file contents goes through readRepoFile: the /api/git/file
+// route the browser reviews files with, the analysis jobs and the review rules. That way all of them decode and
+// refuse files the same way:
+// - contents are decoded as UTF-8 (a leading byte order mark is dropped);
+// - files above the caller's size ceiling are refused, before the download where the size is known up front;
+// - Git LFS pointers are recognized: the repository only holds a stub, the file itself lives in LFS storage;
+// - binary files are refused: a NUL byte among the first 8000 bytes (Git's own check) or bytes that are not UTF-8.
+// Refused files throw an UnreviewableFileError whose message is the reason, e.g. "binary file".
+
+// Git looks at this many leading bytes to tell binary files from text.
+const BINARY_SNIFF_BYTES = 8000;
+
+// The first line of every Git LFS pointer file; pointers are small (about 130 bytes).
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1\n';
+const LFS_POINTER_MAX_BYTES = 1024;
+
+export class UnreviewableFileError extends Error {
+    constructor(reason) {
+        super(reason);
+        this.name = 'UnreviewableFileError';
+    }
+}
+
+export const formatByteSize = (bytes) => {
+    if (bytes < 1024) return `${bytes} bytes`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// `size` is null when the download was stopped as soon as it passed the limit.
+export const fileTooLargeError = (size, maxBytes) =>
+    new UnreviewableFileError(`larger than the ${formatByteSize(maxBytes)} limit${size === null ? '' : ` (${formatByteSize(size)})`}`);
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Decodes the bytes of a file as UTF-8 text. Throws an UnreviewableFileError for files above `maxBytes`, Git LFS
+ * pointers and binary files.
+ */
+export const decodeFileContent = (bytes, maxBytes) => {
+    if (maxBytes && bytes.length > maxBytes) throw fileTooLargeError(bytes.length, maxBytes);
+    if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) throw new UnreviewableFileError('binary file');
+    let text;
+    try {
+        text = utf8.decode(bytes);
+    } catch {
+        throw new UnreviewableFileError('binary file or text that is not UTF-8');
+    }
+    if (bytes.length <= LFS_POINTER_MAX_BYTES && text.startsWith(LFS_POINTER_PREFIX)) {
+        const size = text.match(/^size (\d+)$/m);
+        const stored = size ? ` of ${formatByteSize(Number(size[1]))}` : '';
+        throw new UnreviewableFileError(`Git LFS pointer; the file${stored} is stored outside the repository`);
+    }
+    return text;
+};
+
+/**
+ * Downloads a file of the repository and decodes it with decodeFileContent. `target` comes from
+ * gitHosting.resolveRepo. The file is read by its blob `sha` where the provider supports that, otherwise by `path`
+ * at `ref`; `size`, when a file listing reported it, refuses an oversized file without downloading it. `ctx` is the
+ * provider context (see gitProviders/index.js) with the ceiling in `maxBytes` (0 for none).
+ */
+export const readRepoFile = async ({ location, provider }, { path, ref, sha, size }, ctx) => {
+    if (ctx.maxBytes && size > ctx.maxBytes) throw fileTooLargeError(size, ctx.maxBytes);
+    const bytes = sha && provider.fetchBlob
+        ? await provider.fetchBlob(location, sha, ctx)
+        : await provider.fetchFile(location, path, ref, ctx);
+    return decodeFileContent(bytes, ctx.maxBytes);
+};
@@ -0,0 +1,6 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { matchForbiddenPatterns } from './repoRules.js';
+
+// Worker thread of findForbiddenPatterns: matches the patterns and posts the findings back.
+const { code, fileName, forbiddenPatterns } = workerData;
+parentPort.postMessage(matchForbiddenPatterns(code, fileName, forbiddenPatterns));
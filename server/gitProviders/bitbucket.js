@@ -0,0 +1,145 @@
+import { requestHost, requestJson, readFileBytes, encodeRepoPath, sortNodes, createTtlCache, REF_LIST_LIMIT, COMMIT_LIST_LIMIT } from './http.js';
+
+// Deepest directory level listed by listTree. Bitbucket has no unbounded recursive listing.
+const MAX_TREE_DEPTH = 50;
+
+// Bitbucket Cloud (REST API 2.0 at https://api.bitbucket.org/2.0); Bitbucket Data Center has a different API
+// and is not supported. Repository, project and workspace access tokens are sent as bearer tokens;
+// a token of the form "username:app-password" is sent with basic authentication.
+export const createBitbucketProvider = ({ apiBase, label }) => {
+    const headers = (token) => {
+        if (!token) return {};
+        return token.includes(':')
+            ? { 'Authorization': `Basic ${Buffer.from(token).toString('base64')}` }
+            : { 'Authorization': `Bearer ${token}` };
+    };
+    const repoBase = ({ owner, repo }) => `${apiBase}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const mainBranches = createTtlCache();
+
+    const mainBranch = (location, ctx) => mainBranches(`${location.owner}/${location.repo}`, async () => {
+        const repository = await requestJson(repoBase(location), 'the repository', label, { ...ctx, headers: headers(ctx.token) });
+        return repository.mainbranch.name;
+    });
+
+    const refOrMain = async (location, ref, ctx) => ref ?? mainBranch(location, ctx);
+
+    // Lists a directory at `ref` (the main branch if null), following the `next` links of the paginated response.
+    const listSource = async (location, path, ref, query, ctx) => {
+        const sourceRef = await refOrMain(location, ref, ctx);
+        const values = [];
+        let url = `${repoBase(location)}/src/${encodeURIComponent(sourceRef)}/${path ? `${encodeRepoPath(path)}/` : ''}?pagelen=100${query}`;
+        while (url) {
+            const page = await requestJson(url, path || 'the repository root', label, { ...ctx, headers: headers(ctx.token) });
+            values.push(...page.values);
+            url = page.next;
+        }
+        return values;
+    };
+
+    const resolveCommit = async (location, ref, ctx) => {
+        const name = await refOrMain(location, ref, ctx);
+        const commit = await requestJson(`${repoBase(location)}/commit/${encodeURIComponent(name)}`, `commit ${name}`, label, { ...ctx, headers: headers(ctx.token) });
+        return commit.hash;
+    };
+
+    const baseName = (path) => path.slice(path.lastIndexOf('/') + 1);
+
+    return {
+        id: 'bitbucket',
+        label,
+
+        async listFolder(location, path, ref, ctx) {
+            const values = await listSource(location, path, ref, '', ctx);
+            return sortNodes(values.map(item => item.type === 'commit_directory'
+                ? { type: 'folder', path: item.path, name: baseName(item.path), children: null }
+                : { type: 'file', path: item.path, name: baseName(item.path), size: item.size }));
+        },
+
+        async listTree(location, ref, ctx) {
+            const values = await listSource(location, '', ref, `&max_depth=${MAX_TREE_DEPTH}`, ctx);
+            return {
+                files: values.filter(item => item.type === 'commit_file').map(item => ({ path: item.path, size: item.size })),
+                truncated: values.some(item => item.type === 'commit_directory' && item.path.split('/').length > MAX_TREE_DEPTH),
+            };
+        },
+
+        async fetchFile(location, path, ref, ctx) {
+            const sourceRef = await refOrMain(location, ref, ctx);
+            const url = `${repoBase(location)}/src/${encodeURIComponent(sourceRef)}/${encodeRepoPath(path)}`;
+            return readFileBytes(await requestHost(url, path, label, { ...ctx, headers: headers(ctx.token) }), ctx.maxBytes);
+        },
+
+        async listRefs(location, ctx) {
+            const listRefNames = async (kind) => {
+                const page = await requestJson(`${repoBase(location)}/refs/${kind}?pagelen=${REF_LIST_LIMIT}`, `the ${kind}`, label, { ...ctx, headers: headers(ctx.token) });
+                return page.values.map(item => item.name);
+            };
+            const [defaultBranch, branches, tags] = await Promise.all([mainBranch(location, ctx), listRefNames('branches'), listRefNames('tags')]);
+            return { defaultBranch, branches, tags };
+        },
+
+        resolveCommit,
+
+        // Pull requests only carry abbreviated commit hashes, which are expanded to full SHAs.
+        async getPullRequest(location, number, ctx) {
+            const pull = await requestJson(`${repoBase(location)}/pullrequests/${number}`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            const [baseCommit, headCommit] = await Promise.all([
+                resolveCommit(location, pull.destination.commit.hash, ctx),
+                resolveCommit(location, pull.source.commit.hash, ctx),
+            ]);
+            return {
+                number,
+                title: pull.title,
+                url: pull.links.html.href,
+                baseRef: pull.destination.branch.name,
+                headRef: pull.source.branch.name,
+                baseCommit,
+                headCommit,
+            };
+        },
+
+        async fetchPullRequestDiff(location, number, ctx) {
+            const response = await requestHost(`${repoBase(location)}/pullrequests/${number}/diff`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            return response.text();
+        },
+
+        // Bitbucket's "a..b" spec means the changes on a since its merge base with b, the reverse of Git's order.
+        // Commits are listed newest first and are returned oldest first, like the other hosts do.
+        async compareCommits(location, base, head, ctx) {
+            const spec = `${head}..${base}`;
+            const what = `the comparison of ${base.slice(0, 7)}...${head.slice(0, 7)}`;
+            const listCommits = async () => {
+                const commits = [];
+                let url = `${repoBase(location)}/commits/${head}?exclude=${base}&pagelen=100`;
+                while (url && commits.length < COMMIT_LIST_LIMIT) {
+                    const page = await requestJson(url, what, label, { ...ctx, headers: headers(ctx.token) });
+                    commits.push(...page.values);
+                    url = page.next;
+                }
+                return { commits: commits.slice(0, COMMIT_LIST_LIMIT), complete: !url };
+            };
+            const [mergeBase, diffResponse, listing] = await Promise.all([
+                requestJson(`${repoBase(location)}/merge-base/${spec}`, what, label, { ...ctx, headers: headers(ctx.token) }),
+                requestHost(`${repoBase(location)}/diff/${spec}`, what, label, { ...ctx, headers: headers(ctx.token) }),
+                listCommits(),
+            ]);
+            return {
+                mergeBase: mergeBase.hash,
+                commits: listing.commits.map(commit => ({
+                    sha: commit.hash,
+                    message: commit.message,
+                    author: commit.author?.user?.display_name ?? commit.author?.raw ?? null,
+                    date: commit.date ?? null,
+                })).reverse(),
+                // Bitbucket does not count the commits, so the total of a longer range is unknown.
+                totalCommits: listing.complete ? listing.commits.length : null,
+                diff: await diffResponse.text(),
+            };
+        },
+
+        async getUser(ctx) {
+            const user = await requestJson(`${apiBase}/user`, 'the token owner', label, { ...ctx, headers: headers(ctx.token) });
+            return { login: user.username ?? user.nickname };
+        },
+    };
+};
@@ -0,0 +1,108 @@
+import { HttpStatusError } from '../../utils/retry.js';
+import { requestHost, requestJson, encodeRepoPath, sortNodes, decodeBase64Bytes, readContentsBytes, REF_LIST_LIMIT } from './http.js';
+import { isCommitSha } from '../../utils/repoUrl.js';
+
+const TREE_PAGE_SIZE = 1000; // Gitea's default maximum for the trees API
+
+// Gitea and Forgejo (e.g. Codeberg), REST API v1 at https://<host>/api/v1. The contents API mirrors GitHub's.
+export const createGiteaProvider = ({ apiBase, label }) => {
+    const headers = (token) => (token ? { 'Authorization': `token ${token}` } : {});
+    const repoBase = ({ owner, repo }) => `${apiBase}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const refQuery = (ref) => (ref ? `?ref=${encodeURIComponent(ref)}` : '');
+    // The one request behind a folder listing or a file, so it honors `ctx.conditional` (see gitProviders/index.js).
+    const contents = (location, path, ref, ctx) =>
+        requestJson(`${repoBase(location)}/contents/${encodeRepoPath(path)}${refQuery(ref)}`, path || 'the repository root', label, { ...ctx, headers: headers(ctx.token), validators: ctx.conditional });
+
+    // The commit list starts at `sha`, which may be any branch, tag or commit; without it, at the default branch.
+    const resolveCommit = async (location, ref, ctx) => {
+        const query = `${ref ? `sha=${encodeURIComponent(ref)}&` : ''}limit=1&stat=false&verification=false&files=false`;
+        const commits = await requestJson(`${repoBase(location)}/commits?${query}`, `commit ${ref ?? 'of the default branch'}`, label, { ...ctx, headers: headers(ctx.token) });
+        if (commits.length === 0) throw new HttpStatusError(`No commit found for ${ref ?? 'the default branch'}`, 404);
+        return commits[0].sha;
+    };
+
+    const listRefNames = async (location, kind, ctx) => {
+        const items = await requestJson(`${repoBase(location)}/${kind}?limit=${REF_LIST_LIMIT}`, `the ${kind}`, label, { ...ctx, headers: headers(ctx.token) });
+        return items.map(item => item.name);
+    };
+
+    const fetchBlob = async (location, sha, ctx) => {
+        const data = await requestJson(`${repoBase(location)}/git/blobs/${sha}`, `blob ${sha}`, label, { ...ctx, headers: headers(ctx.token) });
+        return decodeBase64Bytes(data, `blob ${sha}`);
+    };
+
+    return {
+        id: 'gitea',
+        label,
+
+        async listFolder(location, path, ref, ctx) {
+            const data = await contents(location, path, ref, ctx);
+            if (!Array.isArray(data)) throw new HttpStatusError(`${path} is a file, not a directory`, 400);
+            return sortNodes(data.map(item => item.type === 'dir'
+                ? { type: 'folder', path: item.path, name: item.name, children: null }
+                : { type: 'file', path: item.path, name: item.name, size: item.size }));
+        },
+
+        // The recursive tree is paginated; pages are fetched until `total_count` entries have been seen.
+        async listTree(location, ref, ctx) {
+            const ctxWithHeaders = { ...ctx, headers: headers(ctx.token) };
+            const sha = isCommitSha(ref) ? ref : await resolveCommit(location, ref, ctx);
+            const entries = [];
+            let totalCount = 0;
+            for (let page = 1; ; page++) {
+                const data = await requestJson(`${repoBase(location)}/git/trees/${sha}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`, 'the file tree', label, ctxWithHeaders);
+                const tree = data.tree ?? [];
+                entries.push(...tree);
+                totalCount = data.total_count ?? entries.length;
+                if (tree.length === 0 || entries.length >= totalCount) break;
+            }
+            return {
+                files: entries.filter(item => item.type === 'blob').map(item => ({ path: item.path, size: item.size, sha: item.sha })),
+                truncated: entries.length < totalCount,
+            };
+        },
+
+        async fetchFile(location, path, ref, ctx) {
+            const data = await contents(location, path, ref, ctx);
+            if (Array.isArray(data)) throw new HttpStatusError(`${path} is a directory, not a file`, 400);
+            return readContentsBytes(data, path, ctx.maxBytes, (sha) => fetchBlob(location, sha, ctx));
+        },
+
+        fetchBlob,
+
+        async listRefs(location, ctx) {
+            const [repository, branches, tags] = await Promise.all([
+                requestJson(repoBase(location), 'the repository', label, { ...ctx, headers: headers(ctx.token) }),
+                listRefNames(location, 'branches', ctx),
+                listRefNames(location, 'tags', ctx),
+            ]);
+            return { defaultBranch: repository.default_branch, branches, tags };
+        },
+
+        resolveCommit,
+
+        // The diff is computed from the merge base, which newer Gitea versions report.
+        async getPullRequest(location, number, ctx) {
+            const pull = await requestJson(`${repoBase(location)}/pulls/${number}`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            return {
+                number,
+                title: pull.title,
+                url: pull.html_url,
+                baseRef: pull.base.ref,
+                headRef: pull.head.ref,
+                baseCommit: pull.merge_base || pull.base.sha,
+                headCommit: pull.head.sha,
+            };
+        },
+
+        async fetchPullRequestDiff(location, number, ctx) {
+            const response = await requestHost(`${repoBase(location)}/pulls/${number}.diff`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            return response.text();
+        },
+
+        async getUser(ctx) {
+            const user = await requestJson(`${apiBase}/user`, 'the token owner', label, { ...ctx, headers: headers(ctx.token) });
+            return { login: user.login };
+        },
+    };
+};
@@ -0,0 +1,160 @@
+import { HttpStatusError } from '../../utils/retry.js';
+import { requestHost, requestJson, encodeRepoPath, sortNodes, createTtlCache, readContentsBytes, readFileBytes, REF_LIST_LIMIT } from './http.js';
+import { isCommitSha } from '../../utils/repoUrl.js';
+
+// GitHub and GitHub Enterprise Server (REST API v3). The API lives at https://api.github.com for github.com and
+// at https://<host>/api/v3 for Enterprise installations.
+export const createGitHubProvider = ({ apiBase, label }) => {
+    const headers = (token, accept = 'application/vnd.github+json') => ({
+        'Accept': accept,
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    });
+    const repoBase = ({ owner, repo }) => `${apiBase}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const refQuery = (ref) => (ref ? `?ref=${encodeURIComponent(ref)}` : '');
+    // The one request behind a folder listing or a file, so it honors `ctx.conditional` (see gitProviders/index.js).
+    const contents = (location, path, ref, ctx) =>
+        requestJson(`${repoBase(location)}/contents/${encodeRepoPath(path)}${refQuery(ref)}`, path || 'the repository root', label, { ...ctx, headers: headers(ctx.token), validators: ctx.conditional });
+    const defaultBranches = createTtlCache();
+
+    const defaultBranch = (location, ctx) => defaultBranches(`${location.owner}/${location.repo}`, async () => {
+        const repository = await requestJson(repoBase(location), 'the repository', label, { ...ctx, headers: headers(ctx.token) });
+        return repository.default_branch;
+    });
+
+    const resolveCommit = async (location, ref, ctx) => {
+        const name = ref ?? await defaultBranch(location, ctx);
+        const url = `${repoBase(location)}/commits/${encodeRepoPath(name)}`;
+        const response = await requestHost(url, `commit ${name}`, label, { ...ctx, headers: headers(ctx.token, 'application/vnd.github.sha') });
+        return (await response.text()).trim();
+    };
+
+    const listRefNames = async (location, kind, ctx) => {
+        const items = await requestJson(`${repoBase(location)}/${kind}?per_page=${REF_LIST_LIMIT}`, `the ${kind}`, label, { ...ctx, headers: headers(ctx.token) });
+        return items.map(item => item.name);
+    };
+
+    // The raw media type returns the blob's bytes instead of base64 JSON, for blobs of up to 100 MB.
+    const fetchBlob = async (location, sha, ctx) => {
+        const response = await requestHost(`${repoBase(location)}/git/blobs/${sha}`, `blob ${sha}`, label, { ...ctx, headers: headers(ctx.token, 'application/vnd.github.raw+json') });
+        return readFileBytes(response, ctx.maxBytes);
+    };
+
+    return {
+        id: 'github',
+        label,
+
+        async listFolder(location, path, ref, ctx) {
+            const data = await contents(location, path, ref, ctx);
+            if (!Array.isArray(data)) throw new HttpStatusError(`${path} is a file, not a directory`, 400);
+            return sortNodes(data.map(item => item.type === 'dir'
+                ? { type: 'folder', path: item.path, name: item.name, children: null }
+                : { type: 'file', path: item.path, name: item.name, size: item.size }));
+        },
+
+        // GitHub truncates recursive trees above roughly 100,000 entries or 7 MB; `truncated` reports it.
+        async listTree(location, ref, ctx) {
+            const sha = isCommitSha(ref) ? ref : await resolveCommit(location, ref, ctx);
+            const data = await requestJson(`${repoBase(location)}/git/trees/${sha}?recursive=1`, 'the file tree', label, { ...ctx, headers: headers(ctx.token) });
+            return {
+                files: data.tree.filter(item => item.type === 'blob').map(item => ({ path: item.path, size: item.size, sha: item.sha })),
+                truncated: Boolean(data.truncated),
+            };
+        },
+
+        async fetchFile(location, path, ref, ctx) {
+            const data = await contents(location, path, ref, ctx);
+            if (Array.isArray(data)) throw new HttpStatusError(`${path} is a directory, not a file`, 400);
+            return readContentsBytes(data, path, ctx.maxBytes, (sha) => fetchBlob(location, sha, ctx));
+        },
+
+        fetchBlob,
+
+        async listRefs(location, ctx) {
+            const [defaultBranchName, branches, tags] = await Promise.all([
+                defaultBranch(location, ctx),
+                listRefNames(location, 'branches', ctx),
+                listRefNames(location, 'tags', ctx),
+            ]);
+            return { defaultBranch: defaultBranchName, branches, tags };
+        },
+
+        resolveCommit,
+
+        async getPullRequest(location, number, ctx) {
+            const pull = await requestJson(`${repoBase(location)}/pulls/${number}`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            return {
+                number,
+                title: pull.title,
+                url: pull.html_url,
+                baseRef: pull.base.ref,
+                headRef: pull.head.ref,
+                baseCommit: pull.base.sha,
+                headCommit: pull.head.sha,
+            };
+        },
+
+        async fetchPullRequestDiff(location, number, ctx) {
+            const response = await requestHost(`${repoBase(location)}/pulls/${number}`, `pull request #${number}`, label, { ...ctx, headers: headers(ctx.token, 'application/vnd.github.diff') });
+            return response.text();
+        },
+
+        // Without paging parameters the compare API lists the first 250 commits, which is all that is read.
+        async compareCommits(location, base, head, ctx) {
+            const url = `${repoBase(location)}/compare/${base}...${head}`;
+            const what = `the comparison of ${base.slice(0, 7)}...${head.slice(0, 7)}`;
+            const [comparison, diffResponse] = await Promise.all([
+                requestJson(url, what, label, { ...ctx, headers: headers(ctx.token) }),
+                requestHost(url, what, label, { ...ctx, headers: headers(ctx.token, 'application/vnd.github.diff') }),
+            ]);
+            return {
+                mergeBase: comparison.merge_base_commit.sha,
+                commits: comparison.commits.map(commit => ({
+                    sha: commit.sha,
+                    message: commit.commit.message,
+                    author: commit.commit.author?.name ?? null,
+                    date: commit.commit.author?.date ?? null,
+                })),
+                totalCommits: comparison.total_commits,
+                diff: await diffResponse.text(),
+            };
+        },
+
+        // Review comments on the pull request's diff (not the conversation), as { path, body }.
+        async listPullRequestComments(location, number, ctx) {
+            const comments = [];
+            for (let page = 1; ; page++) {
+                const items = await requestJson(`${repoBase(location)}/pulls/${number}/comments?per_page=100&page=${page}`, `the comments of pull request #${number}`, label, { ...ctx, headers: headers(ctx.token) });
+                comments.push(...items.map(item => ({ path: item.path, body: item.body })));
+                if (items.length < 100) return comments;
+            }
+        },
+
+        // Posts a review that only comments (it neither approves nor requests changes). Comments cover the lines
+        // startLine..line on the head side of the diff.
+        async createPullRequestReview(location, number, review, ctx) {
+            const created = await requestJson(`${repoBase(location)}/pulls/${number}/reviews`, `a review of pull request #${number}`, label, {
+                ...ctx,
+                headers: headers(ctx.token),
+                method: 'POST',
+                body: {
+                    commit_id: review.commit,
+                    event: 'COMMENT',
+                    body: review.body,
+                    comments: review.comments.map(comment => ({
+                        path: comment.path,
+                        line: comment.line,
+                        side: 'RIGHT',
+                        ...(comment.startLine < comment.line ? { start_line: comment.startLine, start_side: 'RIGHT' } : {}),
+                        body: comment.body,
+                    })),
+                },
+            });
+            return { id: created.id, url: created.html_url };
+        },
+
+        async getUser(ctx) {
+            const user = await requestJson(`${apiBase}/user`, 'the token owner', label, { ...ctx, headers: headers(ctx.token) });
+            return { login: user.login };
+        },
+    };
+};
@@ -0,0 +1,139 @@
+import { requestHost, requestJson, readFileBytes, sortNodes, createTtlCache, REF_LIST_LIMIT, COMMIT_LIST_LIMIT } from './http.js';
+
+const PAGE_SIZE = 100;
+
+// GitLab.com and self-managed GitLab (REST API v4 at https://<host>/api/v4). Projects are addressed by their
+// URL-encoded path, which includes nested groups ("group/subgroup/project"). Personal, project and group
+// access tokens are all accepted as bearer tokens.
+export const createGitLabProvider = ({ apiBase, label }) => {
+    const headers = (token) => (token ? { 'Authorization': `Bearer ${token}` } : {});
+    const projectBase = ({ owner, repo }) => `${apiBase}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    const defaultBranches = createTtlCache();
+
+    // The file and tree endpoints need a ref; without one the project's default branch is looked up once and cached.
+    const defaultBranch = (location, ctx) => defaultBranches(`${location.owner}/${location.repo}`, async () => {
+        const project = await requestJson(projectBase(location), 'the project', label, { ...ctx, headers: headers(ctx.token) });
+        return project.default_branch;
+    });
+
+    // Follows GitLab's page-based pagination (X-Next-Page) and returns all items.
+    const fetchAllPages = async (url, what, ctx) => {
+        const items = [];
+        for (let page = '1'; page; ) {
+            const response = await requestHost(`${url}&per_page=${PAGE_SIZE}&page=${page}`, what, label, { ...ctx, headers: headers(ctx.token) });
+            items.push(...await response.json());
+            page = response.headers.get('x-next-page');
+        }
+        return items;
+    };
+
+    // GitLab only exposes per-file diffs, so the file headers of a unified diff are added here.
+    const toUnifiedDiff = (changes) => changes.map(change => {
+        const oldPath = change.new_file ? '/dev/null' : `a/${change.old_path}`;
+        const newPath = change.deleted_file ? '/dev/null' : `b/${change.new_path}`;
+        return `diff --git a/${change.old_path} b/${change.new_path}\n--- ${oldPath}\n+++ ${newPath}\n${change.diff}`;
+    }).join('');
+
+    const refOrDefault = async (location, ref, ctx) => ref ?? defaultBranch(location, ctx);
+
+    const listRefNames = async (location, kind, ctx) => {
+        const url = `${projectBase(location)}/repository/${kind}?per_page=${REF_LIST_LIMIT}`;
+        const items = await requestJson(url, `the ${kind}`, label, { ...ctx, headers: headers(ctx.token) });
+        return items.map(item => item.name);
+    };
+
+    const listTreeItems = async (location, path, ref, recursive, ctx) => {
+        const treeRef = await refOrDefault(location, ref, ctx);
+        const query = `ref=${encodeURIComponent(treeRef)}&path=${encodeURIComponent(path)}${recursive ? '&recursive=true' : ''}`;
+        return fetchAllPages(`${projectBase(location)}/repository/tree?${query}`, path || 'the repository root', ctx);
+    };
+
+    return {
+        id: 'gitlab',
+        label,
+
+        // GitLab's tree API does not report file sizes.
+        async listFolder(location, path, ref, ctx) {
+            const items = await listTreeItems(location, path, ref, false, ctx);
+            return sortNodes(items.map(item => item.type === 'tree'
+                ? { type: 'folder', path: item.path, name: item.name, children: null }
+                : { type: 'file', path: item.path, name: item.name }));
+        },
+
+        async listTree(location, ref, ctx) {
+            const items = await listTreeItems(location, '', ref, true, ctx);
+            return { files: items.filter(item => item.type === 'blob').map(item => ({ path: item.path, sha: item.id })), truncated: false };
+        },
+
+        async fetchFile(location, path, ref, ctx) {
+            const fileRef = await refOrDefault(location, ref, ctx);
+            const url = `${projectBase(location)}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(fileRef)}`;
+            return readFileBytes(await requestHost(url, path, label, { ...ctx, headers: headers(ctx.token) }), ctx.maxBytes);
+        },
+
+        async fetchBlob(location, sha, ctx) {
+            const url = `${projectBase(location)}/repository/blobs/${sha}/raw`;
+            return readFileBytes(await requestHost(url, `blob ${sha}`, label, { ...ctx, headers: headers(ctx.token) }), ctx.maxBytes);
+        },
+
+        async listRefs(location, ctx) {
+            const [defaultBranchName, branches, tags] = await Promise.all([
+                defaultBranch(location, ctx),
+                listRefNames(location, 'branches', ctx),
+                listRefNames(location, 'tags', ctx),
+            ]);
+            return { defaultBranch: defaultBranchName, branches, tags };
+        },
+
+        async resolveCommit(location, ref, ctx) {
+            const name = await refOrDefault(location, ref, ctx);
+            const url = `${projectBase(location)}/repository/commits/${encodeURIComponent(name)}`;
+            const commit = await requestJson(url, `commit ${name}`, label, { ...ctx, headers: headers(ctx.token) });
+            return commit.id;
+        },
+
+        // `diff_refs` holds the commits the merge request's diff is computed between.
+        async getPullRequest(location, number, ctx) {
+            const mergeRequest = await requestJson(`${projectBase(location)}/merge_requests/${number}`, `merge request !${number}`, label, { ...ctx, headers: headers(ctx.token) });
+            return {
+                number,
+                title: mergeRequest.title,
+                url: mergeRequest.web_url,
+                baseRef: mergeRequest.target_branch,
+                headRef: mergeRequest.source_branch,
+                baseCommit: mergeRequest.diff_refs.base_sha,
+                headCommit: mergeRequest.diff_refs.head_sha,
+            };
+        },
+
+        async fetchPullRequestDiff(location, number, ctx) {
+            const changes = await fetchAllPages(`${projectBase(location)}/merge_requests/${number}/diffs?unidiff=true`, `merge request !${number}`, ctx);
+            return toUnifiedDiff(changes);
+        },
+
+        // `straight=false` compares `head` with its merge base with `base`, like a merge request would.
+        async compareCommits(location, base, head, ctx) {
+            const what = `the comparison of ${base.slice(0, 7)}...${head.slice(0, 7)}`;
+            const [comparison, mergeBase] = await Promise.all([
+                requestJson(`${projectBase(location)}/repository/compare?from=${base}&to=${head}&straight=false&unidiff=true`, what, label, { ...ctx, headers: headers(ctx.token) }),
+                requestJson(`${projectBase(location)}/repository/merge_base?refs%5B%5D=${base}&refs%5B%5D=${head}`, what, label, { ...ctx, headers: headers(ctx.token) }),
+            ]);
+            return {
+                mergeBase: mergeBase.id,
+                commits: comparison.commits.slice(0, COMMIT_LIST_LIMIT).map(commit => ({
+                    sha: commit.id,
+                    message: commit.message,
+                    author: commit.author_name ?? null,
+                    date: commit.authored_date ?? null,
+                })),
+                totalCommits: comparison.commits.length,
+                diff: toUnifiedDiff(comparison.diffs),
+            };
+        },
+
+        async getUser(ctx) {
+            const user = await requestJson(`${apiBase}/user`, 'the token owner', label, { ...ctx, headers: headers(ctx.token) });
+            return { login: user.username };
+        },
+    };
+};
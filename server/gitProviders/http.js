@@ -0,0 +1,141 @@
+import { withRetry, HttpStatusError, getRetryAfterMs, isRateLimitResponse } from '../../utils/retry.js';
+import { fileTooLargeError } from '../fileContent.js';
+
+// HTTP plumbing shared by the Git hosting providers.
+
+// `options.signal` (e.g. a client disconnect) is honored in addition to the timeout.
+const fetchWithTimeout = async (resource, options = {}, timeout = 15000) => {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+    return fetch(resource, { ...options, signal });
+};
+
+// GitLab reports its rate limit with RateLimit-* headers instead of GitHub's X-RateLimit-*.
+const isHostRateLimited = (response) =>
+    isRateLimitResponse(response) || (response.status === 403 && response.headers.get('ratelimit-remaining') === '0');
+
+const getHostRetryAfterMs = (response) => {
+    const retryAfterMs = getRetryAfterMs(response.headers);
+    if (retryAfterMs !== null) return retryAfterMs;
+    const reset = response.headers.get('ratelimit-reset');
+    return reset ? Math.max(0, Number(reset) * 1000 - Date.now()) : null;
+};
+
+// The host's request budget reported by a response: GitHub's X-RateLimit-* headers or GitLab's RateLimit-*, as
+// { limit, remaining, resetAt } with `resetAt` in epoch milliseconds. Null when the host reports none (Gitea and
+// Bitbucket, or a host without rate limits).
+export const readRateLimit = (headers) => {
+    const [limit, remaining, reset] = ['limit', 'remaining', 'reset']
+        .map(name => headers.get(`x-ratelimit-${name}`) ?? headers.get(`ratelimit-${name}`));
+    if (remaining === null || reset === null) return null;
+    return { limit: limit === null ? null : Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+};
+
+// The explanation in a JSON error response, such as GitHub's { message }.
+const readErrorMessage = async (response) => {
+    try {
+        const data = await response.json();
+        return typeof data?.message === 'string' ? data.message : '';
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Requests `url` with the shared retry policy and returns the Response. Failures throw an HttpStatusError naming
+ * `what` and the host's `label`; rate limits get status 429 and the wait the host asked for.
+ * `ctx` is { headers, signal, onRetry, onRateLimit, policy, method, body, validators }: with a `method` other than GET,
+ * `body` is sent as JSON and the host's explanation of a failure is added to the error. Such requests are usually not
+ * idempotent, so callers should pass a policy without retries. `onRateLimit` receives the budget every response
+ * reports (see readRateLimit), failed ones included.
+ * `validators` ({ ifNoneMatch, etag }) makes a GET conditional: `ifNoneMatch` is sent as If-None-Match, the
+ * response's ETag is stored in `etag`, and an unchanged resource throws an HttpStatusError with status 304.
+ */
+export const requestHost = async (url, what, label, { headers = {}, signal, onRetry, onRateLimit, policy, method = 'GET', body, validators }) =>
+    withRetry(async () => {
+        const isWrite = method !== 'GET';
+        const requestHeaders = { ...headers };
+        if (body !== undefined) requestHeaders['Content-Type'] = 'application/json';
+        if (validators?.ifNoneMatch) requestHeaders['If-None-Match'] = validators.ifNoneMatch;
+        const response = await fetchWithTimeout(url, {
+            method,
+            headers: requestHeaders,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal,
+        });
+        const rateLimit = readRateLimit(response.headers);
+        if (rateLimit) onRateLimit?.(rateLimit);
+        if (response.status === 304) throw new HttpStatusError(`${what} is unchanged`, 304);
+        if (!response.ok) {
+            const action = isWrite ? `send ${what} to` : `fetch ${what} from`;
+            if (isHostRateLimited(response)) {
+                throw new HttpStatusError(`Failed to ${action} ${label} (API rate limit exceeded)`, 429, getHostRetryAfterMs(response));
+            }
+            const detail = isWrite ? await readErrorMessage(response) : '';
+            throw new HttpStatusError(`Failed to ${action} ${label} (status: ${response.status}${detail ? `, ${detail}` : ''})`, response.status);
+        }
+        if (validators) validators.etag = response.headers.get('etag');
+        return response;
+    }, { policy, signal, onRetry });
+
+export const requestJson = async (url, what, label, ctx) => (await requestHost(url, what, label, ctx)).json();
+
+// Encodes each segment of a repository path for use in a URL path.
+export const encodeRepoPath = (path) => path.split('/').map(encodeURIComponent).join('/');
+
+// Decodes the base64 `content` of a blob API response to bytes (GitHub and Gitea share the format).
+export const decodeBase64Bytes = (data, what) => {
+    if (data.size === 0) return Buffer.alloc(0);
+    if (data.encoding !== 'base64' || typeof data.content !== 'string') throw new Error(`Unsupported encoding for ${what}`);
+    return Buffer.from(data.content, 'base64');
+};
+
+// The bytes of a contents API response (GitHub and Gitea share the format). Large files come without inline
+// content (above 1 MB on GitHub, above the API's blob size setting on Gitea), so they are read by their blob SHA
+// with `fetchBlob`, unless they are already known to exceed `maxBytes`.
+export const readContentsBytes = async (data, what, maxBytes, fetchBlob) => {
+    if (maxBytes && data.size > maxBytes) throw fileTooLargeError(data.size, maxBytes);
+    if (data.size > 0 && !data.content && data.sha) return fetchBlob(data.sha);
+    return decodeBase64Bytes(data, what);
+};
+
+// Reads the body of a raw file download. With `maxBytes` a larger file is refused by its Content-Length before
+// the body is read, or as soon as more than that has arrived, so oversized files are not downloaded in full.
+export const readFileBytes = async (response, maxBytes) => {
+    const declared = Number(response.headers.get('content-length'));
+    if (maxBytes && declared > maxBytes) {
+        await response.body?.cancel();
+        throw fileTooLargeError(declared, maxBytes);
+    }
+    if (!maxBytes || !response.body) return Buffer.from(await response.arrayBuffer());
+    const chunks = [];
+    let received = 0;
+    for await (const chunk of response.body) {
+        received += chunk.length;
+        if (received > maxBytes) throw fileTooLargeError(null, maxBytes);
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Folders first, then files, each sorted by name (the order of the FileBrowser).
+export const sortNodes = (nodes) =>
+    nodes.sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1));
+
+// Caches values (e.g. default branches) for a few minutes, so a discovery does not look them up per folder.
+export const createTtlCache = (ttlMs = 5 * 60 * 1000) => {
+    const entries = new Map();
+    return async (key, load) => {
+        const cached = entries.get(key);
+        if (cached && cached.expiresAt > Date.now()) return cached.value;
+        const value = await load();
+        entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        return value;
+    };
+};
+
+// Branches and tags listed for the ref picker; other refs can still be typed in.
+export const REF_LIST_LIMIT = 100;
+
+// Commits listed for a comparison of two commits; the diff always covers the whole range.
+export const COMMIT_LIST_LIMIT = 250;
@@ -0,0 +1,135 @@
+import { readFile } from 'node:fs/promises';
+import { validateStructuredData } from '../structuredOutput.js';
+import { BUILTIN_GIT_HOSTS, parseRepoUrl } from '../../utils/repoUrl.js';
+import { createGitHubProvider } from './github.js';
+import { createGitLabProvider } from './gitlab.js';
+import { createGiteaProvider } from './gitea.js';
+import { createBitbucketProvider } from './bitbucket.js';
+
+// Every Git hosting provider exposes the same calls. `location` is { owner, repo } (see utils/repoUrl.js), `ref`
+// a branch, tag or commit SHA (null for the default branch) and `ctx` is { token, signal, onRetry, onRateLimit, policy,
+// maxBytes, conditional }, where `policy` is the retry policy for the host's API, `onRateLimit` receives the request
+// budget each host response reports ({ limit, remaining, resetAt }, see readRateLimit in http.js) and `maxBytes` the
+// size ceiling of file downloads. `conditional` ({ ifNoneMatch, etag }) is honored by listFolder and fetchFile where one host request
+// answers them (GitHub and Gitea): the request is made with If-None-Match, the host's ETag is stored in `etag`, and an
+// unchanged folder or file throws an HttpStatusError with status 304.
+//   listFolder(location, path, ref, ctx)         -> RepoTreeNode[] (types.ts) of one directory, folders first
+//   listTree(location, ref, ctx)                 -> { files: [{ path, size?, sha? }], truncated }, `sha` being the blob's
+//   fetchFile(location, path, ref, ctx)          -> file content as a Buffer; decoding is left to readRepoFile
+//                                                   (server/fileContent.js)
+//   fetchBlob(location, sha, ctx)                -> content of a blob from listTree as a Buffer; only where listTree
+//                                                   reports `sha`
+//   listRefs(location, ctx)                      -> { defaultBranch, branches, tags } (names, first 100 of each)
+//   resolveCommit(location, ref, ctx)            -> SHA of the commit `ref` points to
+//   getPullRequest(location, number, ctx)        -> { number, title, url, baseRef, headRef, baseCommit, headCommit } of a
+//                                                   pull (or merge) request; the commits are those its diff compares
+//   fetchPullRequestDiff(location, number, ctx)  -> unified diff of a pull (or merge) request
+//   getUser(ctx)                                 -> { login } of the token owner, used to check tokens
+// Comparing commits is optional (Gitea's API has no diff of a commit range):
+//   compareCommits(location, base, head, ctx)    -> { mergeBase, commits: [{ sha, message, author, date }], totalCommits,
+//                                                   diff } of two commit SHAs: the unified diff from their merge base
+//                                                   to `head`, and up to COMMIT_LIST_LIMIT of the commits in between,
+//                                                   oldest first (`totalCommits` null when the host does not count them)
+// Posting reviews is optional, and only GitHub (and GitHub Enterprise) supports it:
+//   listPullRequestComments(location, number, ctx)          -> [{ path, body }] of the review comments on the diff
+//   createPullRequestReview(location, number, review, ctx)  -> { id, url } of a new review; `review` is
+//                                      { commit, body, comments: [{ path, startLine, line, body }] } (head-side lines)
+// Failures throw an HttpStatusError (utils/retry.js); 404 means the repository or path does not exist and
+// 429 a rate limit. Files above `ctx.maxBytes` throw an UnreviewableFileError (server/fileContent.js), if possible
+// before they are downloaded.
+
+export const GIT_PROVIDER_IDS = ['github', 'gitlab', 'gitea', 'bitbucket'];
+
+const PROVIDER_FACTORIES = {
+    github: createGitHubProvider,
+    gitlab: createGitLabProvider,
+    gitea: createGiteaProvider,
+    bitbucket: createBitbucketProvider,
+};
+
+const DEFAULT_LABELS = { github: 'GitHub Enterprise', gitlab: 'GitLab', gitea: 'Gitea', bitbucket: 'Bitbucket' };
+
+// Environment variables with the server's own token for the built-in hosts.
+const BUILTIN_TOKEN_ENV = {
+    'github.com': 'GITHUB_TOKEN',
+    'gitlab.com': 'GITLAB_TOKEN',
+    'gitea.com': 'GITEA_TOKEN',
+    'codeberg.org': 'CODEBERG_TOKEN',
+    'bitbucket.org': 'BITBUCKET_TOKEN',
+};
+
+const GIT_HOSTS_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            host: { type: 'string', pattern: '^[a-z0-9.-]+(:[0-9]+)?$' },
+            provider: { enum: GIT_PROVIDER_IDS },
+            label: { type: 'string', minLength: 1 },
+            apiBase: { type: 'string', pattern: '^https?://' }, // Defaults to the provider's usual path on the host
+            tokenEnv: { type: 'string', pattern: '^[A-Z_][A-Z0-9_]*$' }, // Environment variable with the server's token
+        },
+        required: ['host', 'provider'],
+        additionalProperties: false,
+    },
+};
+
+const defaultApiBase = (host, provider) => {
+    switch (provider) {
+        case 'github': return host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+        case 'gitlab': return `https://${host}/api/v4`;
+        case 'gitea': return `https://${host}/api/v1`;
+        case 'bitbucket': return 'https://api.bitbucket.org/2.0';
+    }
+};
+
+// Reads the self-hosted Git hosts (GitHub Enterprise, GitLab, Gitea) from GIT_HOSTS_FILE. Without the file
+// only the built-in public hosts are known.
+export const loadGitHosts = async (filePath) => {
+    let text;
+    try {
+        text = await readFile(filePath, 'utf-8');
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+    }
+    return validateStructuredData(JSON.parse(text), GIT_HOSTS_SCHEMA, 'Git hosts', filePath);
+};
+
+/**
+ * Creates the registry of known Git hosts: the built-in public hosts plus `configuredHosts` (which may
+ * override a built-in one). `hosts` is the public list for the browser, { host, provider, label }.
+ * `resolveRepo(url)` returns { location, provider, serverToken } for a repository URL, or null for unknown
+ * hosts; `findHost(host)` returns { host, label, provider, serverToken } or null.
+ */
+export const createGitHosting = (configuredHosts, env = process.env) => {
+    const entries = new Map();
+    for (const builtin of BUILTIN_GIT_HOSTS) {
+        entries.set(builtin.host, { ...builtin, tokenEnv: BUILTIN_TOKEN_ENV[builtin.host] });
+    }
+    for (const configured of configuredHosts) {
+        entries.set(configured.host, { ...configured, label: configured.label ?? DEFAULT_LABELS[configured.provider] });
+    }
+    for (const entry of entries.values()) {
+        entry.api = PROVIDER_FACTORIES[entry.provider]({ apiBase: entry.apiBase ?? defaultApiBase(entry.host, entry.provider), label: entry.label });
+    }
+
+    const hosts = [...entries.values()].map(({ host, provider, label }) => ({ host, provider, label }));
+    const serverToken = (entry) => (entry.tokenEnv && env[entry.tokenEnv]) || undefined;
+
+    return {
+        hosts,
+
+        resolveRepo(url) {
+            const location = typeof url === 'string' ? parseRepoUrl(url, hosts) : null;
+            if (!location) return null;
+            const entry = entries.get(location.host);
+            return { location, provider: entry.api, serverToken: serverToken(entry) };
+        },
+
+        findHost(host) {
+            const entry = entries.get(host);
+            return entry ? { host, label: entry.label, provider: entry.api, serverToken: serverToken(entry) } : null;
+        },
+    };
+};
@@ -0,0 +1,79 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { findSecrets } from './secretScanner.js';
+
+// Persists jobs to a single JSON file, so finished jobs and their results survive a server restart.
+// Only a job's summary and its result are stored, with secrets redacted; the event log (file contents
+// included) and a review's code stay in memory. Writes go to a temporary file that is renamed over
+// the store, so a crash mid-write never leaves a truncated file behind.
+
+const STORE_VERSION = 2;
+
+// Replaces the secrets in every string of `value` with a placeholder naming their rule.
+export const redactSecrets = (value) => {
+    if (typeof value === 'string') {
+        let redacted = '';
+        let position = 0;
+        for (const secret of findSecrets(value)) {
+            redacted += `${value.slice(position, secret.start)}[REDACTED:${secret.ruleId}]`;
+            position = secret.end;
+        }
+        return position === 0 ? value : redacted + value.slice(position);
+    }
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactSecrets(item)]));
+    }
+    return value;
+};
+
+export const loadJobRecords = async (filePath) => {
+    try {
+        const data = JSON.parse(await readFile(filePath, 'utf-8'));
+        // Version 1 stores held whole event logs, file contents included; they are not read back.
+        return data.version === STORE_VERSION && Array.isArray(data.jobs) ? data.jobs : [];
+    } catch (error) {
+        if (error.code === 'ENOENT') return [];
+        throw new Error(`Could not read the job store at ${filePath}: ${error.message}`);
+    }
+};
+
+// Coalesces saves: `schedule` writes at most once per `delayMs`, and a save requested while a write is
+// in flight is written again right after it, so the file always ends up with the latest records.
+// Saves are only requested when a job is created, updated, finished or removed, not for its events.
+export const createJobWriter = (filePath, getRecords, delayMs = 1000) => {
+    let timer = null;
+    let writing = null;
+    let pending = false;
+
+    const write = () => {
+        clearTimeout(timer);
+        timer = null;
+        if (writing) {
+            pending = true;
+            return writing;
+        }
+        writing = (async () => {
+            await mkdir(dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.tmp`;
+            await writeFile(tempPath, JSON.stringify({ version: STORE_VERSION, jobs: getRecords() }));
+            await rename(tempPath, filePath);
+        })()
+            .catch(error => console.error(`Failed to save jobs to ${filePath}:`, error))
+            .finally(() => {
+                writing = null;
+                if (pending) {
+                    pending = false;
+                    write();
+                }
+            });
+        return writing;
+    };
+
+    return {
+        schedule() {
+            if (!timer) timer = setTimeout(write, delayMs);
+        },
+        flush: write,
+    };
+};
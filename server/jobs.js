@@ -0,0 +1,209 @@
+import { randomUUID } from 'node:crypto';
+import { createEventSession } from './eventStream.js';
+import { loadJobRecords, createJobWriter, redactSecrets } from './jobStore.js';
+
+// Reviews and analyses run as jobs: they live on the server independently of the HTTP connection that
+// started them, record every event they emit, and can be listed, followed (with replay), cancelled and
+// read back after they finished or after a server restart.
+//
+// A job record is { id, kind, title, status, createdAt, updatedAt, error, clientId, repoUrl?, fileName?, code?, events },
+// where clientId names the API client that created the job.
+// Secrets such as Git host tokens are only ever passed to `run` and are never part of the record.
+// The store only receives the summary and the result (see toStoredRecord). `code` and the full `events` are only
+// kept in memory while the job runs; once it finished, the record holds what the store does.
+
+export const JOB_KINDS = ['analysis', 'review'];
+
+const toSummary = ({ events, code, ...summary }) => summary;
+
+// Folds the event log into the job's result: the review result, or the analysis source (the ref and the commit it
+// resolved to), coverage and tasks.
+const getJobResult = (record) => {
+    if (record.kind === 'review') {
+        return record.events.findLast(event => event.type === 'result')?.result ?? null;
+    }
+    let source = null;
+    let coverage = null;
+    const tasks = new Map();
+    for (const event of record.events) {
+        switch (event.type) {
+            case 'source':
+                source = event.source;
+                break;
+            case 'coverage':
+                coverage = event.coverage;
+                break;
+            case 'task_queued':
+            case 'task_start':
+                tasks.set(event.id, {
+                    ...(tasks.get(event.id) ?? { id: event.id, title: event.title, content: '', error: null }),
+                    status: event.type === 'task_start' ? 'in_progress' : 'pending',
+                });
+                break;
+            case 'task_chunk':
+                if (tasks.has(event.id)) tasks.get(event.id).content += event.chunk;
+                break;
+            case 'task_result':
+                if (tasks.has(event.id)) tasks.get(event.id).result = event.result;
+                break;
+            case 'task_end':
+                if (tasks.has(event.id)) Object.assign(tasks.get(event.id), { status: event.error ? 'error' : 'complete', error: event.error ?? null });
+                break;
+        }
+    }
+    return { source, coverage, tasks: [...tasks.values()] };
+};
+
+// What is written to the job store: no event log and no code, and secrets redacted from the rest.
+const toStoredRecord = (record) => redactSecrets({ ...toSummary(record), result: getJobResult(record) });
+
+// Rebuilds an event log from a stored record that replays the way the original did, as far as followers and
+// getJobResult are concerned: the result, then the error (if any), then `done`. Event ids then count from this log,
+// so resuming a finished job with the Last-Event-ID of the original one may skip events.
+const toReplayEvents = ({ kind, result, error }) => {
+    const events = [];
+    if (kind === 'review') {
+        if (result) events.push({ type: 'result', result });
+    } else if (result) {
+        if (result.source) events.push({ type: 'source', source: result.source });
+        for (const task of result.tasks) {
+            events.push({ type: 'task_queued', id: task.id, title: task.title });
+            if (task.status === 'pending') continue;
+            events.push({ type: 'task_start', id: task.id, title: task.title });
+            if (task.content) events.push({ type: 'task_chunk', id: task.id, chunk: task.content });
+            if (task.result) events.push({ type: 'task_result', id: task.id, result: task.result });
+            if (task.status !== 'in_progress') events.push({ type: 'task_end', id: task.id, ...(task.error && { error: task.error }) });
+        }
+        if (result.coverage) events.push({ type: 'coverage', coverage: result.coverage });
+    }
+    if (error) events.push({ type: 'error', message: error });
+    events.push({ type: 'done' });
+    return events;
+};
+
+export const createJobManager = async ({ filePath, maxJobs }) => {
+    const jobs = new Map(); // id -> { record, session, controller, started }
+    const writer = createJobWriter(filePath, () => [...jobs.values()].map(job => toStoredRecord(job.record)));
+
+    for (const { result, ...summary } of await loadJobRecords(filePath)) {
+        if (summary.status === 'running') {
+            // The work died with the previous process; close the log so followers do not wait forever.
+            summary.status = 'interrupted';
+            summary.error = 'The server restarted before this job finished.';
+        }
+        const record = { ...summary, events: toReplayEvents({ ...summary, result }) };
+        jobs.set(record.id, { record, session: createEventSession({ events: record.events, finished: true }), controller: null, started: true });
+    }
+
+    // Drops the oldest finished jobs once there are more than `maxJobs`.
+    const prune = () => {
+        const finished = [...jobs.values()]
+            .filter(job => job.session.finished)
+            .sort((a, b) => a.record.createdAt.localeCompare(b.record.createdAt));
+        for (const job of finished.slice(0, Math.max(0, jobs.size - maxJobs))) {
+            jobs.delete(job.record.id);
+        }
+    };
+
+    const finish = (job) => {
+        if (job.session.finished) return;
+        const { record } = job;
+        const lastError = record.events.findLast(event => event.type === 'error');
+        if (job.controller.signal.aborted) {
+            const reason = job.controller.signal.reason;
+            record.status = 'cancelled';
+            record.error = reason instanceof Error ? reason.message : 'Cancelled.';
+            job.session.emit({ type: 'error', message: `Job cancelled: ${record.error}` });
+        } else {
+            record.status = lastError ? 'error' : 'complete';
+            record.error = lastError?.message ?? null;
+        }
+        record.updatedAt = new Date().toISOString();
+        job.session.finish();
+        job.controller = null;
+        // A finished job keeps no more than the store does: its log (with every file an analysis read) is replaced
+        // in place by the replay of the redacted result, as for a job restored after a restart, and its code goes.
+        const { result, ...summary } = toStoredRecord(record);
+        record.events.splice(0, record.events.length, ...toReplayEvents({ ...summary, result }));
+        delete record.code;
+        writer.flush();
+    };
+
+    const createHandle = (job) => ({
+        id: job.record.id,
+        signal: job.controller.signal,
+        emit: job.session.emit,
+        attach: job.session.attach,
+        update(fields) {
+            Object.assign(job.record, fields, { updatedAt: new Date().toISOString() });
+            writer.schedule();
+        },
+        // Runs `work(emit, signal)` to completion. Errors become an `error` event; the job is finished either way.
+        async run(work) {
+            job.started = true;
+            const { signal } = job.controller;
+            try {
+                await work(job.session.emit, signal);
+            } catch (error) {
+                if (!signal.aborted) {
+                    console.error(`Job ${job.record.id} (${job.record.title}) failed:`, error);
+                    const errorMessage = error instanceof Error ? error.message : 'An unknown server error occurred';
+                    job.session.emit({ type: 'error', message: `A fatal error occurred: ${errorMessage}` });
+                }
+            } finally {
+                finish(job);
+            }
+        },
+        finish: () => finish(job),
+    });
+
+    return {
+        list: () => [...jobs.values()]
+            .map(job => toSummary(job.record))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+
+        get(id) {
+            const job = jobs.get(id);
+            return job && { ...toSummary(job.record), code: job.record.code, result: getJobResult(job.record) };
+        },
+
+        attach(id, res, lastEventId) {
+            const job = jobs.get(id);
+            if (!job) return false;
+            job.session.attach(res, lastEventId);
+            return true;
+        },
+
+        // Returns a handle used to emit events and run the work. `fields` are stored on the record (no secrets).
+        create({ kind, title, ...fields }) {
+            const now = new Date().toISOString();
+            const record = { id: randomUUID(), kind, title, status: 'running', createdAt: now, updatedAt: now, error: null, ...fields, events: [] };
+            const job = { record, session: null, controller: new AbortController(), started: false };
+            job.session = createEventSession({ events: record.events });
+            jobs.set(record.id, job);
+            prune();
+            writer.schedule();
+            return createHandle(job);
+        },
+
+        // Returns false if there is no such job. Cancelling a finished job is a no-op.
+        cancel(id, reason = new Error('Cancelled by the client.')) {
+            const job = jobs.get(id);
+            if (!job) return false;
+            if (job.controller && !job.controller.signal.aborted) {
+                job.controller.abort(reason);
+                // Work that has not started yet (e.g. an upload still in progress) will never finish on its own.
+                if (!job.started) finish(job);
+            }
+            return true;
+        },
+
+        remove(id) {
+            if (!jobs.has(id)) return false;
+            this.cancel(id);
+            jobs.delete(id);
+            writer.flush();
+            return true;
+        },
+    };
+};
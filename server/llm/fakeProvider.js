@@ -0,0 +1,65 @@
+// Small deterministic hash so the same prompt always yields the same fake output.
+const hashString = (value) => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// The code of a prompt is either between BEGIN/END boundary lines (see promptSafety.js) or, in older
+// prompt versions, in a markdown fence.
+const extractFirstCodeBlock = (prompt) => {
+    const codeMatch = prompt.match(/^BEGIN (\S+)\n([\s\S]*?)\nEND \1$/m) ?? prompt.match(/```[^\n]*\n()([\s\S]*?)\n\s*```/);
+    return codeMatch ? codeMatch[2].replace(/^\s+|\s+$/g, '') : '';
+};
+
+// Builds a minimal instance of a JSON schema. Properties named `correctedCode`
+// echo the prompt's first code block so fake reviews produce an empty diff.
+const buildFromSchema = (schema, prompt, seed, key = '') => {
+    if (schema.enum) return schema.enum[0];
+    switch (schema.type) {
+        case 'object': {
+            const result = {};
+            for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+                result[name] = buildFromSchema(propertySchema, prompt, seed, name);
+            }
+            return result;
+        }
+        case 'array':
+            return schema.items ? [buildFromSchema(schema.items, prompt, seed, key)] : [];
+        case 'integer':
+        case 'number':
+            return schema.minimum ?? 1;
+        case 'boolean':
+            return false;
+        default:
+            return key === 'correctedCode' ? extractFirstCodeBlock(prompt) : `Fake ${key || 'text'} ${seed}`;
+    }
+};
+
+// Default responder: a schema-shaped object for structured prompts, otherwise markdown
+// that echoes the prompt's first code block (enough for the lint endpoint to round-trip).
+const defaultRespond = (prompt, { schema } = {}) => {
+    const seed = hashString(prompt);
+    if (schema) return JSON.stringify(buildFromSchema(schema, prompt, seed), null, 2);
+    const code = extractFirstCodeBlock(prompt);
+    const text = `Fake response ${seed}: generated offline by the fake provider.`;
+    return code ? `${text}\n\n\`\`\`\n${code}\n\`\`\`` : text;
+};
+
+// Offline provider that never touches the network. `respond` can be overridden in tests.
+export const createFakeProvider = ({ respond = defaultRespond, chunkSize = 16 } = {}) => ({
+    name: 'fake',
+    async *stream(prompt, options = {}) {
+        const text = respond(prompt, options);
+        for (let i = 0; i < text.length; i += chunkSize) {
+            options.signal?.throwIfAborted();
+            yield text.slice(i, i + chunkSize);
+        }
+    },
+    async generate(prompt, options = {}) {
+        options.signal?.throwIfAborted();
+        return respond(prompt, options);
+    },
+});
@@ -0,0 +1,26 @@
+import { GoogleGenAI } from '@google/genai';
+
+// Wraps the @google/genai SDK behind the common provider interface.
+export const createGeminiProvider = ({ apiKey, models }) => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const buildConfig = (schema, signal) => ({
+        ...(schema && { responseMimeType: 'application/json', responseJsonSchema: schema }),
+        ...(signal && { abortSignal: signal }),
+    });
+
+    return {
+        name: 'gemini',
+        async *stream(prompt, { tier = 'default', schema, signal } = {}) {
+            const responseStream = await ai.models.generateContentStream({ model: models[tier], contents: prompt, config: buildConfig(schema, signal) });
+            for await (const chunk of responseStream) {
+                signal?.throwIfAborted();
+                if (chunk.text) yield chunk.text;
+            }
+        },
+        async generate(prompt, { tier = 'default', schema, signal } = {}) {
+            const response = await ai.models.generateContent({ model: models[tier], contents: prompt, config: buildConfig(schema, signal) });
+            return response.text ?? '';
+        },
+    };
+};
@@ -0,0 +1,48 @@
+import { createGeminiProvider } from './geminiProvider.js';
+import { createOpenAiProvider } from './openAiProvider.js';
+import { createFakeProvider } from './fakeProvider.js';
+
+export { withRetries } from './retryingProvider.js';
+export { withTokenBudget } from './meteredProvider.js';
+
+// Every provider exposes the same two calls:
+//   stream(prompt, { tier })   -> AsyncGenerator<string> of text chunks
+//   generate(prompt, { tier }) -> Promise<string> with the full response
+// `tier` is 'default' for in-depth work (reviews, analysis) or 'fast' for cheap one-shot calls (lint).
+// `schema` is an optional JSON schema; when given, the provider asks the backend for JSON matching it.
+// `signal` is an optional AbortSignal that cancels the upstream request.
+// `onRetry` is an optional callback invoked before each retry (see retryingProvider.js).
+
+// Builds the provider selected by LLM_PROVIDER (gemini | openai | fake). Throws on incomplete configuration.
+export const createLlmProvider = (env = process.env) => {
+    const providerName = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+    switch (providerName) {
+        case 'gemini': {
+            if (!env.API_KEY) throw new Error('API_KEY is not defined in your .env file.');
+            return createGeminiProvider({
+                apiKey: env.API_KEY,
+                models: {
+                    default: env.GEMINI_MODEL || 'gemini-2.5-pro',
+                    fast: env.GEMINI_FAST_MODEL || 'gemini-2.5-flash',
+                },
+            });
+        }
+        case 'openai': {
+            if (!env.OPENAI_BASE_URL) throw new Error('OPENAI_BASE_URL is not defined in your .env file.');
+            if (!env.OPENAI_MODEL) throw new Error('OPENAI_MODEL is not defined in your .env file.');
+            return createOpenAiProvider({
+                baseUrl: env.OPENAI_BASE_URL,
+                apiKey: env.OPENAI_API_KEY,
+                models: {
+                    default: env.OPENAI_MODEL,
+                    fast: env.OPENAI_FAST_MODEL || env.OPENAI_MODEL,
+                },
+            });
+        }
+        case 'fake':
+            return createFakeProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${providerName}". Expected one of: gemini, openai, fake.`);
+    }
+};
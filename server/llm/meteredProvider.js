@@ -0,0 +1,24 @@
+import { estimateTokens } from '../usageLimits.js';
+
+// Wraps a provider so every call is charged to `clientId`'s daily token budget (see usageLimits.js).
+// A call is refused up front once the budget is spent; a call that is already running is allowed to finish,
+// so a budget can be overrun by at most one response per concurrent call. withRetries goes around this wrapper,
+// so a prompt is charged again for every retry.
+export const withTokenBudget = (provider, budget, clientId) => ({
+    name: provider.name,
+    async *stream(prompt, options = {}) {
+        budget.check(clientId);
+        budget.charge(clientId, estimateTokens(prompt));
+        for await (const chunk of provider.stream(prompt, options)) {
+            budget.charge(clientId, estimateTokens(chunk));
+            yield chunk;
+        }
+    },
+    async generate(prompt, options = {}) {
+        budget.check(clientId);
+        budget.charge(clientId, estimateTokens(prompt));
+        const text = await provider.generate(prompt, options);
+        budget.charge(clientId, estimateTokens(text));
+        return text;
+    },
+});
@@ -0,0 +1,65 @@
+import { HttpStatusError, getRetryAfterMs } from '../../utils/retry.js';
+
+// Talks to any server implementing the OpenAI chat completions API
+// (OpenAI itself, Ollama, vLLM, LM Studio, llama.cpp server, ...).
+export const createOpenAiProvider = ({ baseUrl, apiKey, models }) => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const request = async (prompt, { tier = 'default', schema, signal } = {}, stream) => {
+        const headers = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+        const res = await fetch(endpoint, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model: models[tier],
+                messages: [{ role: 'user', content: prompt }],
+                stream,
+                ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } }),
+            }),
+        });
+        if (!res.ok) {
+            const body = await res.text().catch(() => '');
+            throw new HttpStatusError(`LLM request to ${endpoint} failed (status: ${res.status}) ${body}`.trim(), res.status, getRetryAfterMs(res.headers));
+        }
+        return res;
+    };
+
+    return {
+        name: 'openai',
+        async *stream(prompt, options) {
+            const res = await request(prompt, options, true);
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const data = trimmed.slice(5).trim();
+                    if (data === '[DONE]') return;
+                    try {
+                        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                        if (text) yield text;
+                    } catch (e) {
+                        console.warn('Ignoring malformed completion chunk:', data);
+                    }
+                }
+            }
+        },
+        async generate(prompt, options) {
+            const res = await request(prompt, options, false);
+            const data = await res.json();
+            return data.choices?.[0]?.message?.content ?? '';
+        },
+    };
+};
@@ -0,0 +1,25 @@
+import { withRetry } from '../../utils/retry.js';
+
+// Wraps a provider so every call follows the shared retry policy. Callers may pass `onRetry` in the
+// call options to report retries. Streams are only retried until their first chunk arrives: after
+// that a retry would repeat output the caller has already forwarded, so later failures are final.
+export const withRetries = (provider, policy) => ({
+    name: provider.name,
+    async *stream(prompt, options = {}) {
+        const { iterator, first } = await withRetry(async () => {
+            const iterator = provider.stream(prompt, options)[Symbol.asyncIterator]();
+            return { iterator, first: await iterator.next() };
+        }, { policy, signal: options.signal, onRetry: options.onRetry });
+
+        if (first.done) return;
+        yield first.value;
+        while (true) {
+            const next = await iterator.next();
+            if (next.done) return;
+            yield next.value;
+        }
+    },
+    async generate(prompt, options = {}) {
+        return withRetry(() => provider.generate(prompt, options), { policy, signal: options.signal, onRetry: options.onRetry });
+    },
+});
@@ -0,0 +1,54 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Named, versioned prompt templates. Each prompt is a directory under PROMPTS_DIR holding one file per version
+// (`v1.md`, `v2.md`, ...); the highest version is used unless a caller pins one. Files are re-read on every
+// use, so a prompt can be tuned by adding a new version file without restarting the server, and every result
+// can record which id and version produced it.
+//
+// Templates use {{name}} placeholders. Rendering fails on a placeholder without a value, so a typo in a
+// template surfaces as an error instead of reaching the model.
+
+const VERSION_FILE = /^v(\d+)\.md$/;
+
+// Fills {{name}} placeholders in one pass, so placeholder-like text inside the values is left alone.
+export const renderTemplate = (template, variables, label = 'template') =>
+    template.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+        if (!(name in variables)) throw new Error(`The ${label} uses the unknown variable {{${name}}}.`);
+        return String(variables[name]);
+    });
+
+export const createPromptRegistry = (dir) => {
+    // The versions of prompt `id` in ascending order; with `placeholder`, only those whose template uses it.
+    const listVersions = async (id, { placeholder } = {}) => {
+        let fileNames;
+        try {
+            fileNames = await readdir(join(dir, id));
+        } catch (error) {
+            if (error.code === 'ENOENT') throw new Error(`Unknown prompt "${id}".`);
+            throw error;
+        }
+        const versions = fileNames
+            .map(name => name.match(VERSION_FILE))
+            .filter(Boolean)
+            .map(match => Number(match[1]))
+            .sort((a, b) => a - b);
+        if (!placeholder) return versions;
+        const templates = await Promise.all(versions.map(version => readFile(join(dir, id, `v${version}.md`), 'utf-8')));
+        return versions.filter((_, index) => templates[index].includes(`{{${placeholder}}}`));
+    };
+
+    return {
+        listVersions,
+
+        // Returns { id, version, text }. Without `version`, the latest version is used.
+        async render(id, variables, version) {
+            const versions = await listVersions(id);
+            const resolved = version ?? versions.at(-1);
+            if (resolved === undefined) throw new Error(`Prompt "${id}" has no versions.`);
+            if (!versions.includes(resolved)) throw new Error(`Prompt "${id}" has no version ${resolved}.`);
+            const template = await readFile(join(dir, id, `v${resolved}.md`), 'utf-8');
+            return { id, version: resolved, text: renderTemplate(template, variables, `prompt ${id}@v${resolved}`) };
+        },
+    };
+};
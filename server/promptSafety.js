@@ -0,0 +1,94 @@
+import { randomBytes } from 'node:crypto';
+import { touchesChangedLines } from '../utils/unifiedDiff.js';
+
+// Helpers for putting untrusted repository content (code, file names) into prompts.
+//
+// Code is placed between BEGIN/END lines carrying a random boundary, so a file containing ``` or a fake end
+// marker cannot close the block early, and the prompt tells the model to treat everything inside as data.
+// File names are sanitized because they are interpolated into the instructions themselves. The detector
+// below flags instruction-like text so reviewers see attempts to steer the model, and review responses are
+// checked against the source before they are returned.
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+// Returns a boundary token that does not occur in any of `texts`.
+export const createBoundary = (...texts) => {
+    for (;;) {
+        const boundary = `UNTRUSTED-${randomBytes(8).toString('hex')}`;
+        if (!texts.some(text => text.includes(boundary))) return boundary;
+    }
+};
+
+// Wraps untrusted text in BEGIN/END lines with the boundary.
+export const wrapUntrusted = (text, boundary) => `BEGIN ${boundary}\n${text}\nEND ${boundary}`;
+
+// Keeps file names to one line of printable path characters so they cannot carry instructions or quotes.
+export const sanitizeFileName = (fileName) => {
+    const sanitized = fileName
+        .replace(/[\u0000-\u001f\u007f-\u009f\u2028\u2029]/g, ' ')
+        .replace(/[`"'<>{}\\]/g, '_')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return sanitized.length > MAX_FILE_NAME_LENGTH ? `${sanitized.slice(0, MAX_FILE_NAME_LENGTH)}...` : sanitized;
+};
+
+const INSTRUCTION_PATTERNS = [
+    { regex: /\b(?:ignore|disregard|forget|override)\b.{0,30}\b(?:previous|prior|above|earlier|all|any|your|the)\b.{0,20}\b(?:instructions?|prompts?|rules|guidelines|directions)\b/i, title: 'Tells the model to ignore its instructions' },
+    { regex: /\byou are (?:now|no longer)\b|\bfrom now on,? you\b|\bpretend (?:to be|you are)\b/i, title: 'Tries to change the model\'s role' },
+    { regex: /\b(?:system|developer) (?:prompt|instructions)\b/i, title: 'Refers to the system prompt' },
+    { regex: /\b(?:do not|don't|never) (?:report|flag|mention|review|list)\b.{0,40}\b(?:issues?|findings?|bugs?|vulnerabilit(?:y|ies)|problems?|this)\b/i, title: 'Asks the reviewer to hide findings' },
+    { regex: /\b(?:AI|assistant|model|LLM|reviewer)s?\b.{0,40}\b(?:must|should|will|shall)\b.{0,20}\b(?:respond|reply|answer|output|approve|say)\b|\bmark (?:this|the) (?:file|code) as (?:safe|secure|clean)\b/i, title: 'Dictates the model\'s answer' },
+    { regex: /<\|(?:im_start|im_end|system|assistant|user)\|>|^\s*(?:#+\s*)?(?:system|assistant)\s*:/im, title: 'Contains chat role markers' },
+];
+
+/**
+ * Finds instruction-like text in untrusted content, e.g. "ignore previous instructions" in a comment.
+ * Returns { line, title, snippet } per matching line (first matching pattern only).
+ */
+export const detectInstructionLikeContent = (text) => {
+    const matches = [];
+    text.split('\n').forEach((lineText, index) => {
+        const pattern = INSTRUCTION_PATTERNS.find(({ regex }) => regex.test(lineText));
+        if (pattern) matches.push({ line: index + 1, title: pattern.title, snippet: lineText.trim().slice(0, 120) });
+    });
+    return matches;
+};
+
+// Reports instruction-like content as review findings.
+export const injectionFindings = (matches) =>
+    matches.map(({ line, title, snippet }) => ({
+        severity: 'medium',
+        category: 'security',
+        startLine: line,
+        endLine: line,
+        title: `Possible prompt injection: ${title.charAt(0).toLowerCase()}${title.slice(1)}`,
+        explanation: `This line reads like an instruction to an AI reviewer: \`${snippet.replace(/`/g, "'")}\`. It was treated as data, but review it and the rest of this review with care; automated reviews of this file may have been steered.`,
+    }));
+
+/**
+ * Checks a parsed review against the source it claims to describe. Throws when the response leaks the
+ * boundary (the model echoed the prompt frame instead of answering). Findings pointing past the end of the
+ * file are dropped and reported in `problems`; end lines past the end are clamped. With `changedRanges` (see
+ * changedLineRanges in utils/unifiedDiff.js), findings that do not touch a changed line are dropped as well.
+ */
+export const validateReviewAgainstSource = (review, { lineCount, boundary, changedRanges = null }) => {
+    const texts = [review.reviewComments, review.correctedCode, ...review.findings.flatMap(f => [f.title, f.explanation, f.suggestedReplacement ?? ''])];
+    if (texts.some(text => text.includes(boundary))) {
+        throw new Error('The model response repeats the untrusted-content boundary, so it does not follow the expected structure.');
+    }
+
+    const problems = [];
+    const findings = [];
+    for (const finding of review.findings) {
+        if (finding.startLine > lineCount) {
+            problems.push(`Dropped finding "${finding.title}": it refers to line ${finding.startLine}, but the file has ${lineCount} lines.`);
+            continue;
+        }
+        if (changedRanges && !touchesChangedLines(finding, changedRanges)) {
+            problems.push(`Dropped finding "${finding.title}": lines ${finding.startLine}-${finding.endLine} are not part of the change.`);
+            continue;
+        }
+        findings.push(finding.endLine > lineCount ? { ...finding, endLine: lineCount } : finding);
+    }
+    return { review: { ...review, findings }, problems };
+};
@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import { hunkLineRanges } from '../utils/unifiedDiff.js';
+
+// Turns the findings of a reviewed pull request file into a pull request review: one comment per finding,
+// anchored to the finding's lines on the head side of the diff, optionally with a suggestion block that
+// replaces those lines with the corresponding part of the corrected code.
+//
+// Every comment ends with an HTML comment carrying a key derived from the file and the finding, which the
+// host renders invisibly. Findings whose key is already among the pull request's comments are skipped, so
+// posting the same review twice does not duplicate it.
+
+const MARKER_PATTERN = /<!-- code-reviewer:([0-9a-f]{16}) -->/g;
+
+// Upper bound of the line alignment table (rows x columns of the changed middle of the file); beyond it
+// suggestions fall back to the findings' own replacements.
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+const findingKey = (path, { startLine, endLine, title }) =>
+    createHash('sha256').update(JSON.stringify([path, startLine, endLine, title])).digest('hex').slice(0, 16);
+
+const marker = (key) => `<!-- code-reviewer:${key} -->`;
+
+// Collects the keys of the findings the given comments ({ body }) posted.
+export const readPostedKeys = (comments) => {
+    const keys = new Set();
+    for (const { body } of comments) {
+        for (const match of String(body ?? '').matchAll(MARKER_PATTERN)) keys.add(match[1]);
+    }
+    return keys;
+};
+
+// Matches the lines of `before` to those of `after` (a longest common subsequence after trimming the common
+// prefix and suffix). Returns, per line of `before`, the index of its line in `after` or -1 when it was
+// changed or removed; null when the files are too different to align cheaply.
+const alignLines = (before, after) => {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix
+        && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+    const rows = before.length - prefix - suffix;
+    const cols = after.length - prefix - suffix;
+    if (rows * cols > MAX_ALIGNMENT_CELLS) return null;
+
+    const matches = new Array(before.length).fill(-1);
+    for (let i = 0; i < prefix; i++) matches[i] = i;
+    for (let k = 1; k <= suffix; k++) matches[before.length - k] = after.length - k;
+
+    // table[i][j]: length of the common subsequence of the middle parts from row i and column j on.
+    const width = cols + 1;
+    const table = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            table[i * width + j] = before[prefix + i] === after[prefix + j]
+                ? table[(i + 1) * width + j + 1] + 1
+                : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+        }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+        if (before[prefix + i] === after[prefix + j]) {
+            matches[prefix + i] = prefix + j;
+            i++;
+            j++;
+        } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+};
+
+// Lines of `after` that replace the 0-based lines start..end of `before`, given the alignment of alignLines.
+// A change belongs to the range when the lines it removes lie inside it; lines that are only inserted belong
+// to the range when they follow one of its lines. Returns null when a change straddles the range's edges.
+const correctedSlice = (matches, after, start, end) => {
+    let from;
+    if (matches[start] !== -1) from = matches[start];
+    else if (start === 0) from = 0;
+    else if (matches[start - 1] !== -1) from = matches[start - 1] + 1;
+    else return null;
+
+    let to;
+    if (end + 1 === matches.length) to = after.length;
+    else if (matches[end + 1] !== -1) to = matches[end + 1];
+    else if (matches[end] !== -1) to = matches[end] + 1;
+    else return null;
+
+    return after.slice(from, to);
+};
+
+// A fence longer than any run of backticks in the text, so the text cannot close the block.
+const fenceFor = (text) => '`'.repeat(Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length)) + 1);
+
+const suggestionBlock = (lines) => {
+    const text = lines.join('\n');
+    const fence = fenceFor(text);
+    return lines.length ? `${fence}suggestion\n${text}\n${fence}` : `${fence}suggestion\n${fence}`;
+};
+
+const commentBody = (finding, suggestion, key) => [
+    `**${finding.severity}** · ${finding.category} · ${finding.title}`,
+    finding.explanation,
+    ...(suggestion ? [suggestion] : []),
+    marker(key),
+].join('\n\n');
+
+/**
+ * Builds the review of one pull request file.
+ * `code` is the file at the head commit the findings refer to, `patch` its part of the pull request's diff and
+ * `postedKeys` the result of readPostedKeys for the pull request's existing comments. With `suggestions`,
+ * comments propose the lines of `correctedCode` that replace the finding's lines (or the finding's
+ * suggestedReplacement when the two cannot be aligned).
+ * Returns { review: { commit, body, comments: [{ path, startLine, line, body }] }, skipped: [{ title, startLine,
+ * endLine, reason }] }; comments only cover lines the diff shows, as hosts reject comments on other lines.
+ */
+export const buildPullRequestReview = ({ path, patch, code, correctedCode, summary, findings, commit, suggestions, postedKeys }) => {
+    const hunks = hunkLineRanges(patch);
+    const lines = code.split('\n');
+    const correctedLines = suggestions && typeof correctedCode === 'string' ? correctedCode.split('\n') : null;
+    const matches = correctedLines && alignLines(lines, correctedLines);
+
+    const comments = [];
+    const skipped = [];
+    for (const finding of findings) {
+        const { title, startLine, endLine } = finding;
+        const key = findingKey(path, finding);
+        if (postedKeys.has(key)) {
+            skipped.push({ title, startLine, endLine, reason: 'already posted' });
+            continue;
+        }
+        const hunk = hunks.find(([start, end]) => startLine <= end && endLine >= start);
+        if (!hunk) {
+            skipped.push({ title, startLine, endLine, reason: 'not on a line of the diff' });
+            continue;
+        }
+        const first = Math.max(startLine, hunk[0]);
+        const last = Math.min(endLine, hunk[1], lines.length);
+        const clamped = first !== startLine || last !== endLine;
+
+        let suggestion = null;
+        if (suggestions) {
+            let replacement = matches ? correctedSlice(matches, correctedLines, first - 1, last - 1) : null;
+            if (!replacement && !clamped && typeof finding.suggestedReplacement === 'string') {
+                replacement = finding.suggestedReplacement.replace(/\n$/, '').split('\n');
+            }
+            const unchanged = replacement && replacement.join('\n') === lines.slice(first - 1, last).join('\n');
+            if (replacement && !unchanged) suggestion = suggestionBlock(replacement);
+        }
+        comments.push({ path, startLine: first, line: last, body: commentBody(finding, suggestion, key) });
+    }
+
+    const body = [`Automated review of \`${path}\`.`, ...(summary ? [summary] : [])].join('\n\n');
+    return { review: { commit, body, comments }, skipped };
+};
@@ -0,0 +1,69 @@
+import { FINDING_SEVERITIES, REVIEW_RESULT_SCHEMA } from './reviewSchema.js';
+import { sanitizeFileName } from './promptSafety.js';
+
+// Input of the release-readiness summary (POST /api/release-summary): the commits between two refs and the
+// reviews of the files they change, as the browser holds them after reviewing a comparison. The reviews are
+// condensed to their summaries and finding titles, which is what a release decision needs.
+
+export const RELEASE_SUMMARY_REQUEST_SCHEMA = {
+    type: 'object',
+    properties: {
+        repoUrl: { type: 'string' },
+        base: { type: 'string', minLength: 1 },
+        head: { type: 'string', minLength: 1 },
+        commits: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { sha: { type: 'string' }, message: { type: 'string' } },
+                required: ['sha', 'message'],
+            },
+        },
+        totalCommits: { type: ['integer', 'null'] }, // Null when the host does not count them
+        reviews: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string' },
+                    summary: { type: 'string' },
+                    findings: REVIEW_RESULT_SCHEMA.properties.findings,
+                },
+                required: ['path', 'summary', 'findings'],
+            },
+        },
+        unreviewed: { type: 'array', items: { type: 'string' } }, // Changed files whose review failed or was cancelled
+    },
+    required: ['repoUrl', 'base', 'head', 'commits', 'reviews'],
+};
+
+const severityRank = (severity) => FINDING_SEVERITIES.indexOf(severity);
+
+// Counts findings per severity, e.g. "1 critical, 3 low"; "none" without findings.
+const countBySeverity = (findings) => FINDING_SEVERITIES
+    .map(severity => [severity, findings.filter(finding => finding.severity === severity).length])
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`)
+    .join(', ') || 'none';
+
+// Formats the commits and reviews of a release summary request as the untrusted context of the prompt.
+export const formatReleaseContext = ({ commits, totalCommits = null, reviews, unreviewed = [] }) => {
+    const allFindings = reviews.flatMap(review => review.findings);
+    const omittedCommits = totalCommits === null ? 'an unknown number of' : totalCommits - commits.length;
+    const lines = [
+        `Commits (${commits.length}${totalCommits !== commits.length ? `; ${omittedCommits} more not listed` : ''}):`,
+        ...commits.map(commit => `- ${commit.sha.slice(0, 7)} ${commit.message.split('\n')[0]}`),
+        '',
+        `Findings across ${reviews.length} reviewed file(s): ${countBySeverity(allFindings)}.`,
+        ...(unreviewed.length > 0 ? [`Changed files that were not reviewed: ${unreviewed.map(sanitizeFileName).join(', ')}.`] : []),
+    ];
+    for (const review of reviews) {
+        lines.push('', `File ${sanitizeFileName(review.path)}`, `Review summary: ${review.summary}`);
+        const findings = [...review.findings].sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+        findings.forEach(finding => {
+            const range = finding.startLine === finding.endLine ? `line ${finding.startLine}` : `lines ${finding.startLine}-${finding.endLine}`;
+            lines.push(`- [${finding.severity}, ${finding.category}] ${range}: ${finding.title}`);
+        });
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,280 @@
+import { Worker } from 'node:worker_threads';
+import { once } from 'node:events';
+import { parse as parseYaml } from 'yaml';
+import { validateStructuredData } from './structuredOutput.js';
+import { FINDING_SEVERITIES, FINDING_CATEGORIES } from './reviewSchema.js';
+import { compilePathPatterns } from '../utils/pathGlobs.js';
+
+// Repository-level review rules, read from a `.codereview.yml` at the root of the reviewed repository:
+//
+//   conventions: ["Use async/await instead of promise chains."]
+//   ignore: ["dist/", "**/*.min.js"]              # left out of file discovery and analyses
+//   severityOverrides: { style: low }             # finding category -> severity
+//   reviewInstructions: "..."                     # added to every file review prompt
+//   analysisInstructions: "..."                   # added to every analysis task prompt
+//   forbiddenPatterns:
+//     - { pattern: "console\\.log", message: "Use the logger.", severity: medium, paths: ["src/"] }
+//
+// Conventions and instructions go into the prompts. Severity overrides and forbidden patterns are also applied
+// to review results directly, so they hold even when the model ignores them.
+
+export const REPO_RULES_FILE_NAMES = ['.codereview.yml', '.codereview.yaml'];
+
+// Forbidden pattern matches reported per pattern and file, so one noisy pattern cannot flood a review.
+const MAX_MATCHES_PER_PATTERN = 20;
+
+// Forbidden patterns come from the reviewed repository (or the client), so anyone who can push to it controls them.
+// Besides refusing patterns prone to catastrophic backtracking (findBacktrackingRisk), the patterns and the part of
+// each line they are matched against are kept short.
+const MAX_PATTERN_LENGTH = 200;
+const MAX_MATCHED_LINE_LENGTH = 2000;
+// Patterns that get past those checks and still take long are stopped: they are matched in a worker thread, which
+// is terminated after this long.
+const FORBIDDEN_PATTERN_TIMEOUT_MS = 2000;
+
+const REPO_RULES_SCHEMA = {
+    type: 'object',
+    properties: {
+        conventions: { type: 'array', items: { type: 'string', minLength: 1 } },
+        ignore: { type: 'array', items: { type: 'string', minLength: 1 } },
+        severityOverrides: {
+            type: 'object',
+            propertyNames: { enum: FINDING_CATEGORIES },
+            additionalProperties: { enum: FINDING_SEVERITIES },
+        },
+        reviewInstructions: { type: 'string' },
+        analysisInstructions: { type: 'string' },
+        forbiddenPatterns: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    pattern: { type: 'string', minLength: 1 }, // A JavaScript regular expression, matched per line
+                    message: { type: 'string' },
+                    severity: { enum: FINDING_SEVERITIES },
+                    category: { enum: FINDING_CATEGORIES },
+                    paths: { type: 'array', items: { type: 'string', minLength: 1 } }, // Globs; all files when omitted
+                },
+                required: ['pattern'],
+                additionalProperties: false,
+            },
+        },
+    },
+    additionalProperties: false,
+};
+
+// Characters tried when deciding whether two atoms can match the same character: ASCII and a few others.
+const SAMPLE_CHARS = [...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)), 'é', 'ß', '\u00a0', '\u2028', '中'];
+
+// A predicate for the characters that `source` (a literal, an escape, a character class or .) matches.
+const atomMatcher = (source) => {
+    const regExp = new RegExp(`^(?:${source})$`);
+    return char => regExp.test(char);
+};
+
+const canMatchSameChar = (a, b) => SAMPLE_CHARS.some(char => a(char) && b(char));
+
+// The quantifier of the atom before `index` (*, +, ?, {n}, {n,} or {n,m}, possibly lazy), as { length, optional,
+// unbounded, repeats }; length 0 without one.
+const readQuantifier = (pattern, index) => {
+    const match = pattern.slice(index).match(/^(?:[*+?]|\{(\d+)(,(\d*))?\})\??/);
+    if (!match) return { length: 0, optional: false, unbounded: false, repeats: false };
+    const [text, min, comma, max] = match;
+    return {
+        length: text.length,
+        optional: text[0] === '*' || text[0] === '?' || min === '0',
+        unbounded: text[0] === '*' || text[0] === '+' || (comma !== undefined && !max),
+        repeats: text[0] !== '?',
+    };
+};
+
+// The atom at `index` of a pattern outside a group's parentheses: an escape, a character class or one character.
+const readAtom = (pattern, index) => {
+    if (pattern[index] === '\\') return pattern.slice(index).match(/^\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|c[A-Za-z]|[\s\S])/)[0];
+    if (pattern[index] !== '[') return pattern[index];
+    let end = index + 1;
+    if (pattern[end] === ']') end++;
+    while (end < pattern.length && pattern[end] !== ']') end += pattern[end] === '\\' ? 2 : 1;
+    return pattern.slice(index, end + 1);
+};
+
+// Why a regular expression may take exponential (or high polynomial) time on some lines, or null. These are the
+// shapes that backtrack catastrophically:
+// - a repeated group that itself contains a repetition or an alternation, as in (a+)+ or (a|ab)*;
+// - unbounded repetitions that can match the same characters with nothing in between that tells them apart, as in
+//   a*a*! or \w+\d*x, where each way of splitting a run between them is tried; a final repetition (.*foo.*) is
+//   allowed, since nothing after it can fail;
+// - backreferences.
+// Patterns are refused on the shape alone, so some harmless ones (e.g. (foo|bar)+) are too.
+const findBacktrackingRisk = (pattern) => {
+    // Per open group: whether it contains a repetition, an alternation or an unbounded repetition, the characters
+    // its atoms match, and the unbounded repetitions the next atom may directly follow.
+    const openGroup = () => ({ repeats: false, alternates: false, unbounded: false, matchers: [], pending: [] });
+    const groups = [openGroup()];
+
+    // Adds an atom to the innermost group; true if it is a repetition that competes with a pending one.
+    const addAtom = (matcher, { optional, unbounded }) => {
+        const group = groups.at(-1);
+        group.matchers.push(matcher);
+        group.unbounded ||= unbounded;
+        if (unbounded && group.pending.some(previous => canMatchSameChar(previous, matcher))) return true;
+        if (optional) {
+            if (unbounded) group.pending.push(matcher);
+        } else {
+            // A required atom that a pending repetition cannot match ends that repetition's run.
+            group.pending = [...group.pending.filter(previous => canMatchSameChar(previous, matcher)), ...(unbounded ? [matcher] : [])];
+        }
+        return false;
+    };
+
+    let index = 0;
+    while (index < pattern.length) {
+        const char = pattern[index];
+        if (char === '(') {
+            groups.push(openGroup());
+            index += pattern.slice(index).match(/^\((?:\?(?:[:=!]|<[=!]|<[A-Za-z_$][\w$]*>))?/)[0].length;
+            continue;
+        }
+        if (char === '|') {
+            groups.at(-1).alternates = true;
+            groups.at(-1).pending = [];
+            index++;
+            continue;
+        }
+        if (char === '^' || char === '$' || /^\\[bB]/.test(pattern.slice(index, index + 2))) {
+            index += char === '\\' ? 2 : 1;
+            continue;
+        }
+        if (/^\\(?:[1-9]|k<)/.test(pattern.slice(index, index + 3))) return 'it uses a backreference';
+
+        let competes;
+        if (char === ')') {
+            const group = groups.length > 1 ? groups.pop() : groups[0];
+            const quantifier = readQuantifier(pattern, index + 1);
+            if (quantifier.repeats && (group.repeats || group.alternates)) return 'it repeats a group that contains a repetition or an alternation';
+            groups.at(-1).repeats ||= group.repeats || quantifier.repeats;
+            competes = addAtom(char => group.matchers.some(matcher => matcher(char)), { ...quantifier, unbounded: quantifier.unbounded || group.unbounded });
+            index += 1 + quantifier.length;
+        } else {
+            const atom = readAtom(pattern, index);
+            const quantifier = readQuantifier(pattern, index + atom.length);
+            groups.at(-1).repeats ||= quantifier.repeats;
+            competes = addAtom(atomMatcher(atom), quantifier);
+            index += atom.length + quantifier.length;
+        }
+        if (competes && (groups.length > 1 || index < pattern.length)) return 'it has repetitions in a row that can match the same characters';
+    }
+    return null;
+};
+
+// Validates rules (parsed from the YAML file, or sent back by the client with a review) and fills in defaults.
+export const normalizeRepoRules = (data, subject = 'The rules field') => {
+    const rules = validateStructuredData(data ?? {}, REPO_RULES_SCHEMA, 'review rules', subject);
+    for (const { pattern } of rules.forbiddenPatterns ?? []) {
+        try {
+            new RegExp(pattern);
+        } catch (error) {
+            throw new Error(`${subject} has an invalid forbidden pattern: ${error.message}`);
+        }
+        if (pattern.length > MAX_PATTERN_LENGTH) {
+            throw new Error(`${subject} has a forbidden pattern longer than ${MAX_PATTERN_LENGTH} characters.`);
+        }
+        const risk = findBacktrackingRisk(pattern);
+        if (risk) throw new Error(`${subject} has a forbidden pattern that could take very long to match, since ${risk}: /${pattern}/`);
+    }
+    return {
+        conventions: rules.conventions ?? [],
+        ignore: rules.ignore ?? [],
+        severityOverrides: rules.severityOverrides ?? {},
+        reviewInstructions: rules.reviewInstructions ?? '',
+        analysisInstructions: rules.analysisInstructions ?? '',
+        forbiddenPatterns: rules.forbiddenPatterns ?? [],
+    };
+};
+
+export const parseRepoRules = (text, fileName) => {
+    let data;
+    try {
+        data = parseYaml(text);
+    } catch (error) {
+        throw new Error(`${fileName} is not valid YAML: ${error.message.split('\n')[0]}`);
+    }
+    return normalizeRepoRules(data, fileName);
+};
+
+// Formats the rules as a prompt section for a file review or an analysis task. Empty when there is nothing to say.
+export const formatRepoRulesForPrompt = (rules, purpose) => {
+    if (!rules) return '';
+    const sections = [];
+    if (rules.conventions.length > 0) {
+        sections.push(`Coding conventions:\n${rules.conventions.map(convention => `- ${convention}`).join('\n')}`);
+    }
+    if (rules.forbiddenPatterns.length > 0) {
+        const patterns = rules.forbiddenPatterns.map(p => `- /${p.pattern}/${p.message ? `: ${p.message}` : ''}`);
+        sections.push(`Forbidden patterns (regular expressions):\n${patterns.join('\n')}`);
+    }
+    const overrides = Object.entries(rules.severityOverrides);
+    if (purpose === 'review' && overrides.length > 0) {
+        sections.push(`Severity rules:\n${overrides.map(([category, severity]) => `- Rate "${category}" findings as "${severity}".`).join('\n')}`);
+    }
+    const instructions = purpose === 'review' ? rules.reviewInstructions : rules.analysisInstructions;
+    if (instructions.trim()) sections.push(`Additional instructions:\n${instructions.trim()}`);
+    if (sections.length === 0) return '';
+    return `The repository defines these review rules. Follow them and report violations:\n${sections.join('\n\n')}`;
+};
+
+export const createIgnoredPathMatcher = (rules) => compilePathPatterns(rules?.ignore ?? []);
+
+export const applySeverityOverrides = (findings, rules) =>
+    findings.map(finding => {
+        const severity = rules?.severityOverrides[finding.category];
+        return severity ? { ...finding, severity } : finding;
+    });
+
+// Scans `code` line by line for the forbidden patterns that apply to `fileName`, returning review findings. Lines
+// longer than MAX_MATCHED_LINE_LENGTH (typically minified code) are only matched up to that length. Runs in the
+// worker of findForbiddenPatterns, since a pattern may still backtrack for long despite findBacktrackingRisk.
+export const matchForbiddenPatterns = (code, fileName, forbiddenPatterns) => {
+    const findings = [];
+    const lines = code.split('\n');
+    for (const forbidden of forbiddenPatterns) {
+        const regExp = new RegExp(forbidden.pattern);
+        let matches = 0;
+        for (let index = 0; index < lines.length && matches < MAX_MATCHES_PER_PATTERN; index++) {
+            if (!regExp.test(lines[index].slice(0, MAX_MATCHED_LINE_LENGTH))) continue;
+            matches++;
+            findings.push({
+                severity: forbidden.severity ?? 'medium',
+                category: forbidden.category ?? 'style',
+                startLine: index + 1,
+                endLine: index + 1,
+                title: `Forbidden pattern /${forbidden.pattern}/`,
+                explanation: forbidden.message ?? 'This line matches a pattern that the repository rules forbid.',
+            });
+        }
+    }
+    return findings;
+};
+
+// Finds the lines of `code` that match the forbidden patterns applying to `fileName` (see matchForbiddenPatterns).
+// The matching runs in a worker thread, which is terminated after `timeoutMs`: the promise then rejects, so a
+// pattern that backtracks catastrophically costs a review its forbidden pattern findings, not the server its thread.
+export const findForbiddenPatterns = async (code, fileName, rules, { timeoutMs = FORBIDDEN_PATTERN_TIMEOUT_MS } = {}) => {
+    const forbiddenPatterns = (rules?.forbiddenPatterns ?? [])
+        .filter(forbidden => !forbidden.paths || compilePathPatterns(forbidden.paths)(fileName));
+    if (forbiddenPatterns.length === 0) return [];
+
+    const worker = new Worker(new URL('./forbiddenPatternWorker.js', import.meta.url), { workerData: { code, fileName, forbiddenPatterns } });
+    let timer;
+    try {
+        return await Promise.race([
+            once(worker, 'message').then(([findings]) => findings),
+            new Promise((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`matching the forbidden patterns took longer than ${timeoutMs} ms`)), timeoutMs);
+            }),
+        ]);
+    } finally {
+        clearTimeout(timer);
+        await worker.terminate();
+    }
+};
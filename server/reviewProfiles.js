@@ -0,0 +1,37 @@
+import { readFile } from 'node:fs/promises';
+import { validateStructuredData } from './structuredOutput.js';
+
+// Review profiles steer a file review towards one concern (security, performance, ...). They are defined in
+// a JSON file (REVIEW_PROFILES_FILE) and fill the {{focus}} and {{profileInstructions}} variables of the
+// review prompt. The first profile is the default.
+
+const REVIEW_PROFILES_SCHEMA = {
+    type: 'array',
+    minItems: 1,
+    items: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            focus: { type: 'string', minLength: 1 },
+            instructions: { type: 'string' },
+            promptVersion: { type: 'integer', minimum: 1 }, // Pins the review prompt version for this profile
+        },
+        required: ['id', 'title', 'focus'],
+        additionalProperties: false,
+    },
+};
+
+export const loadReviewProfiles = async (filePath) => {
+    const data = JSON.parse(await readFile(filePath, 'utf-8'));
+    return validateStructuredData(data, REVIEW_PROFILES_SCHEMA, 'review profiles', filePath);
+};
+
+// Returns the profile with `id`, or the default profile when no id is given. Throws on unknown ids.
+export const selectReviewProfile = (profiles, id) => {
+    if (!id) return profiles[0];
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) throw new Error(`Unknown review profile "${id}".`);
+    return profile;
+};
@@ -0,0 +1,45 @@
+import { parseStructuredResponse } from './structuredOutput.js';
+
+export const FINDING_SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'];
+export const FINDING_CATEGORIES = ['bug', 'security', 'performance', 'style', 'maintainability', 'other'];
+
+// JSON schema for the structured review returned by /api/review. Mirrors ReviewResult in types.ts.
+// It is also handed to the model provider so backends with structured output support can enforce it.
+export const REVIEW_RESULT_SCHEMA = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'A short markdown overview of the file and the review.' },
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    severity: { type: 'string', enum: FINDING_SEVERITIES },
+                    category: { type: 'string', enum: FINDING_CATEGORIES },
+                    startLine: { type: 'integer', minimum: 1, description: '1-based first line of the original code this finding refers to.' },
+                    endLine: { type: 'integer', minimum: 1, description: '1-based last line (inclusive) of the original code this finding refers to.' },
+                    title: { type: 'string' },
+                    explanation: { type: 'string', description: 'Markdown explanation of the problem and why it matters.' },
+                    suggestedReplacement: { type: 'string', description: 'Replacement code for the referenced lines, if applicable.' },
+                },
+                required: ['severity', 'category', 'startLine', 'endLine', 'title', 'explanation'],
+                additionalProperties: false,
+            },
+        },
+        correctedCode: { type: 'string', description: 'The full corrected version of the file.' },
+    },
+    required: ['summary', 'findings', 'correctedCode'],
+    additionalProperties: false,
+};
+
+// Parses and validates the raw model response. Returns a ReviewResult or throws a descriptive Error.
+export const parseReviewResponse = (text) => {
+    const data = parseStructuredResponse(text, REVIEW_RESULT_SCHEMA, 'review');
+
+    const findings = data.findings.map(finding => ({
+        ...finding,
+        endLine: Math.max(finding.startLine, finding.endLine),
+    }));
+
+    return { reviewComments: data.summary, findings, correctedCode: data.correctedCode };
+};
@@ -0,0 +1,134 @@
+import { compilePathPatterns } from '../utils/pathGlobs.js';
+
+// Local secret scanner that runs before any file content is put into a prompt. Matches are replaced with
+// numbered placeholders (`[REDACTED:aws_access_key_id:1]`), so the model never sees the value, and every
+// redaction is reported with its line. SECRET_SCAN_MODE=refuse keeps files with secrets away from the model
+// entirely, and files matching SECRET_SCAN_REFUSE_PATHS (e.g. `.env`, `*.pem`) are never sent in any mode.
+
+export const SECRET_SCAN_MODES = ['redact', 'refuse', 'off'];
+
+export const DEFAULT_REFUSE_PATHS = ['.env', '.env.local', '.env.*.local', '.env.production', '*.pem', '*.key', '*.p12', '*.pfx', 'id_rsa', 'id_dsa', 'id_ecdsa', 'id_ed25519'];
+
+// `group` is the capture group holding the secret (0 for the whole match). Rules with `minEntropy` only match
+// values whose Shannon entropy (bits per character) reaches it, which filters out placeholders and words.
+const SECRET_RULES = [
+    { id: 'private_key', title: 'Private key', severity: 'critical', regex: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g, group: 0 },
+    { id: 'aws_access_key_id', title: 'AWS access key ID', severity: 'critical', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, group: 0 },
+    { id: 'aws_secret_access_key', title: 'AWS secret access key', severity: 'critical', regex: /aws.{0,20}?(?:secret|key).{0,20}?[:=]\s*["']?([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi, group: 1 },
+    { id: 'github_token', title: 'GitHub token', severity: 'critical', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g, group: 0 },
+    { id: 'slack_token', title: 'Slack token', severity: 'high', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g, group: 0 },
+    { id: 'stripe_key', title: 'Stripe secret key', severity: 'critical', regex: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/g, group: 0 },
+    { id: 'google_api_key', title: 'Google API key', severity: 'high', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g, group: 0 },
+    { id: 'jwt', title: 'JSON Web Token', severity: 'high', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, group: 0 },
+    { id: 'connection_string', title: 'Password in a connection string', severity: 'high', regex: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|redis|rediss|amqps?|mssql|sqlserver):\/\/[^:\s/@]+:([^@\s]+)@/gi, group: 1 },
+    { id: 'generic_secret', title: 'High-entropy secret', severity: 'high', regex: /(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|client[_-]?secret|auth)[\w-]*["']?\s*[:=]\s*["']?([A-Za-z0-9+/=_-]{16,})/gi, group: 1, minEntropy: 3.5 },
+];
+
+const shannonEntropy = (value) => {
+    const counts = new Map();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+};
+
+const lineAt = (text, index) => {
+    let line = 1;
+    for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) line++;
+    return line;
+};
+
+// Returns the secrets in `text` as { ruleId, title, severity, start, end, line }, in order and without overlaps.
+export const findSecrets = (text) => {
+    const matches = [];
+    for (const rule of SECRET_RULES) {
+        for (const match of text.matchAll(rule.regex)) {
+            const value = match[rule.group];
+            if (!value || (rule.minEntropy && shannonEntropy(value) < rule.minEntropy)) continue;
+            const start = match.index + (rule.group === 0 ? 0 : match[0].lastIndexOf(value));
+            matches.push({ ruleId: rule.id, title: rule.title, severity: rule.severity, start, end: start + value.length });
+        }
+    }
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    const secrets = [];
+    for (const match of matches) {
+        if (secrets.length > 0 && match.start < secrets.at(-1).end) continue;
+        secrets.push({ ...match, line: lineAt(text, match.start) });
+    }
+    return secrets;
+};
+
+/**
+ * Creates the scanner used for every prompt that contains file contents.
+ * `protect(text, path)` returns { text, redactions, refused, reason }: `text` is what may be sent to the model
+ * (null when the file is refused) and `redactions` lists { placeholder, replacement, value, ruleId, title, severity, line }.
+ */
+export const createSecretScanner = ({ mode = 'redact', refusePaths = DEFAULT_REFUSE_PATHS } = {}) => {
+    if (!SECRET_SCAN_MODES.includes(mode)) {
+        throw new Error(`Unknown SECRET_SCAN_MODE "${mode}". Expected one of: ${SECRET_SCAN_MODES.join(', ')}.`);
+    }
+    const isRefusedPath = compilePathPatterns(refusePaths);
+
+    return {
+        mode,
+        protect(text, path) {
+            if (isRefusedPath(path)) {
+                return { text: null, redactions: [], refused: true, reason: 'its file name matches SECRET_SCAN_REFUSE_PATHS' };
+            }
+            if (mode === 'off') return { text, redactions: [], refused: false };
+
+            const secrets = findSecrets(text);
+            const redactions = secrets.map((secret, index) => {
+                const value = text.slice(secret.start, secret.end);
+                const placeholder = `[REDACTED:${secret.ruleId}:${index + 1}]`;
+                return {
+                    placeholder,
+                    // Newlines inside a secret (private keys) are kept so line numbers still match the original file.
+                    replacement: placeholder + '\n'.repeat(value.split('\n').length - 1),
+                    value,
+                    ruleId: secret.ruleId,
+                    title: secret.title,
+                    severity: secret.severity,
+                    line: secret.line,
+                };
+            });
+            if (mode === 'refuse' && redactions.length > 0) {
+                return { text: null, redactions, refused: true, reason: `it contains ${redactions.length} secret(s)` };
+            }
+
+            let redacted = '';
+            let position = 0;
+            secrets.forEach((secret, index) => {
+                redacted += text.slice(position, secret.start) + redactions[index].replacement;
+                position = secret.end;
+            });
+            redacted += text.slice(position);
+            return { text: redacted, redactions, refused: false };
+        },
+    };
+};
+
+// Puts the original values back into code written by the model (corrected code, suggested replacements),
+// so applying a suggestion does not replace a real value with a placeholder. Never used on prompt text.
+export const restoreSecrets = (text, redactions) =>
+    redactions.reduce((restored, { placeholder, replacement, value }) => {
+        const target = restored.includes(replacement) ? replacement : placeholder;
+        return restored.split(target).join(value);
+    }, text);
+
+// Reports redactions as review findings. `refused` changes the wording: the file was not sent at all.
+export const secretFindings = (redactions, refused) =>
+    redactions.map(redaction => ({
+        severity: redaction.severity,
+        category: 'security',
+        startLine: redaction.line,
+        endLine: redaction.line,
+        title: `${redaction.title} in source`,
+        explanation: `${refused
+            ? 'This line contains a secret, so the file was not sent to the model.'
+            : `This line contains a secret, which was replaced with \`${redaction.placeholder}\` before the file was sent to the model.`
+        } Rotate it if it is real and load it from the environment or a secret store instead.`,
+    }));
@@ -0,0 +1,38 @@
+import Ajv from 'ajv';
+
+const ajv = new Ajv({ allErrors: true });
+const validators = new WeakMap();
+
+const getValidator = (schema) => {
+    if (!validators.has(schema)) validators.set(schema, ajv.compile(schema));
+    return validators.get(schema);
+};
+
+// Some models wrap JSON output in a markdown fence even when asked not to.
+const stripJsonFence = (text) => {
+    const fenceMatch = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/);
+    return fenceMatch ? fenceMatch[1] : text.trim();
+};
+
+// Parses a raw model response and validates it against `schema`. Throws a descriptive Error
+// naming `label` (e.g. "review") when the response is not JSON or does not match.
+export const parseStructuredResponse = (text, schema, label) => {
+    let data;
+    try {
+        data = JSON.parse(stripJsonFence(text));
+    } catch (e) {
+        throw new Error(`The model did not return valid JSON: ${e.message}`);
+    }
+
+    return validateStructuredData(data, schema, label, 'The model response');
+};
+
+// Validates already parsed data against `schema`, e.g. a config file. `subject` starts the error message.
+export const validateStructuredData = (data, schema, label, subject = 'The data') => {
+    const validate = getValidator(schema);
+    if (!validate(data)) {
+        const details = ajv.errorsText(validate.errors, { dataVar: label });
+        throw new Error(`${subject} does not match the ${label} schema: ${details}`);
+    }
+    return data;
+};
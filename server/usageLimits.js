@@ -0,0 +1,89 @@
+// Per-client limits on the routes that call the model: a request rate limit (fixed windows) and a daily token
+// budget. Both are kept in memory, so they reset when the server restarts. Tokens are estimated from text
+// length because the providers report usage differently (or not at all).
+
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Thrown when a client has used up its daily token budget. `status` lets routes answer 429.
+export class TokenBudgetError extends Error {
+    constructor(message, retryAfterMs) {
+        super(message);
+        this.name = 'TokenBudgetError';
+        this.status = 429;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Allows `requests` requests per client in every window of `windowMs`. `take(clientId)` counts a request and
+ * returns { allowed, retryAfterMs }. A limit of 0 disables the limiter.
+ */
+export const createRateLimiter = ({ requests, windowMs }) => {
+    const windows = new Map(); // clientId -> { start, count }
+
+    return {
+        take(clientId) {
+            if (requests <= 0) return { allowed: true, retryAfterMs: 0 };
+            const now = Date.now();
+            let current = windows.get(clientId);
+            if (!current || now - current.start >= windowMs) {
+                current = { start: now, count: 0 };
+                windows.set(clientId, current);
+                // Forget clients whose window has passed so the map does not grow without bound.
+                for (const [id, window] of windows) {
+                    if (now - window.start >= windowMs) windows.delete(id);
+                }
+            }
+            if (current.count >= requests) return { allowed: false, retryAfterMs: current.start + windowMs - now };
+            current.count++;
+            return { allowed: true, retryAfterMs: 0 };
+        },
+    };
+};
+
+const utcDay = (time) => new Date(time).toISOString().slice(0, 10);
+
+const msUntilNextUtcDay = (time) => {
+    const next = new Date(time);
+    next.setUTCHours(24, 0, 0, 0);
+    return next.getTime() - time;
+};
+
+/**
+ * Tracks estimated tokens (prompt plus response) per client and UTC day. A `dailyLimit` of 0 means unlimited.
+ * `check(clientId)` throws TokenBudgetError once the budget is spent; `charge(clientId, tokens)` records usage.
+ */
+export const createTokenBudget = ({ dailyLimit }) => {
+    let day = utcDay(Date.now());
+    const used = new Map(); // clientId -> tokens used today
+
+    const usedToday = (clientId) => {
+        const today = utcDay(Date.now());
+        if (today !== day) {
+            day = today;
+            used.clear();
+        }
+        return used.get(clientId) ?? 0;
+    };
+
+    return {
+        dailyLimit,
+
+        usage(clientId) {
+            const tokens = usedToday(clientId);
+            return { used: tokens, limit: dailyLimit || null, remaining: dailyLimit ? Math.max(0, dailyLimit - tokens) : null };
+        },
+
+        check(clientId) {
+            if (!dailyLimit || usedToday(clientId) < dailyLimit) return;
+            const retryAfterMs = msUntilNextUtcDay(Date.now());
+            throw new TokenBudgetError(`Daily token budget of ${dailyLimit} tokens used up. It resets at midnight UTC, in ${Math.ceil(retryAfterMs / 60000)} minutes.`, retryAfterMs);
+        },
+
+        charge(clientId, tokens) {
+            used.set(clientId, usedToday(clientId) + tokens);
+        },
+    };
+};
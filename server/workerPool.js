@@ -0,0 +1,26 @@
+// Runs `worker(item, index)` for every item with at most `concurrency` calls in flight.
+// Resolves to Promise.allSettled-style results in input order; a rejected worker never stops the others.
+// Once `signal` is aborted no new items are started; their results are rejected with the abort reason.
+export const runWithConcurrency = async (items, concurrency, worker, { signal } = {}) => {
+    const results = new Array(items.length);
+    let nextIndex = 0;
+
+    const runNext = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            if (signal?.aborted) {
+                results[index] = { status: 'rejected', reason: signal.reason };
+                continue;
+            }
+            try {
+                results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+            } catch (reason) {
+                results[index] = { status: 'rejected', reason };
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runNext));
+    return results;
+};
@@ -0,0 +1,45 @@
+import type { ApiSession } from '../types';
+import { HttpStatusError, getRetryAfterMs } from '../utils/retry.js';
+
+// Dispatched on `window` whenever the server answers 401, so the sign-in form can appear wherever the call came from.
+export const UNAUTHORIZED_EVENT = 'api-unauthorized';
+
+/**
+ * Turns a failed API response into an HttpStatusError reading "Failed to <action>: <reason>". 401 and 413 get
+ * messages that say what went wrong, and 429 keeps the server's Retry-After so retries wait long enough.
+ */
+export async function readApiError(response: Response, action: string): Promise<HttpStatusError> {
+    const text = await response.text();
+    switch (response.status) {
+        case 401:
+            window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+            return new HttpStatusError(`Failed to ${action}: you are not signed in. ${text}`, 401);
+        case 413:
+            return new HttpStatusError(`Failed to ${action}: the request is too large. ${text}`, 413);
+        case 429:
+            return new HttpStatusError(`Failed to ${action}: ${text}`, 429, getRetryAfterMs(response.headers));
+        default:
+            return new HttpStatusError(`Failed to ${action}: ${text}`, response.status);
+    }
+}
+
+export async function getSession(signal?: AbortSignal): Promise<ApiSession> {
+    const response = await fetch('/api/session', { signal });
+    if (!response.ok) throw await readApiError(response, 'check the session');
+    return response.json();
+}
+
+// Exchanges an API key for an HttpOnly session cookie; the key itself is not stored in the browser.
+export async function signIn(apiKey: string): Promise<void> {
+    const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey }),
+    });
+    if (!response.ok) throw await readApiError(response, 'sign in');
+}
+
+export async function signOut(): Promise<void> {
+    const response = await fetch('/api/session', { method: 'DELETE' });
+    if (!response.ok) throw await readApiError(response, 'sign out');
+}
@@ -0,0 +1,42 @@
+// Reads a Server-Sent Events response. Each event's `data:` is the JSON of the event, and `id:` (if present)
+// is what to send back as Last-Event-ID when resuming. Comments (heartbeats) and unknown fields are ignored.
+export async function* readEventStream<T extends { type: string }>(response: Response): AsyncGenerator<{ id?: string, event: T | { type: 'error', message: string } }> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let id: string | undefined;
+    let data: string[] = [];
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || ''; // Keep the last, possibly incomplete, line
+
+        for (const line of lines) {
+            if (line === '') {
+                // A blank line dispatches the event collected so far.
+                if (data.length === 0) continue;
+                const payload = data.join('\n');
+                data = [];
+                try {
+                    yield { id, event: JSON.parse(payload) as T };
+                } catch(e) {
+                    console.error("Failed to parse stream event:", e, "Data:", payload);
+                    // Yield a structured error event so the UI can display it for troubleshooting.
+                    yield { id, event: { type: 'error', message: `[CLIENT PARSE ERROR] Failed to parse event: ${payload}` } };
+                }
+                continue;
+            }
+            if (line.startsWith(':')) continue;
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+            if (field === 'data') data.push(fieldValue);
+            else if (field === 'id') id = fieldValue;
+        }
+    }
+}
@@ -1,43 +1,83 @@
 
-import type { RepoAnalysisStreamEvent } from '../types';
-
-async function* streamFetch(response: Response): AsyncGenerator<string> {
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-            break;
-        }
-        yield decoder.decode(value);
-    }
+import type { AnalysisLimits, RepoAnalysisStreamEvent, ReviewStreamEvent, ReleaseSummaryStreamEvent, AnalysisTaskDefinition, ReviewProfile, RepoRules, RepoRulesInfo, Comparison, ReviewResult } from '../types';
+import { readEventStream } from './eventStream';
+import { followJobEvents, cancelJob } from './jobService';
+import { readApiError } from './apiClient';
+import { withRetry, type RetryInfo } from '../utils/retry.js';
+import { readThroughCache, cachePolicyFor } from './gitService';
+
+// `profileId` selects a review profile; the server's default profile is used when omitted.
+// `rules` are the repository's review rules (see fetchRepoRules), added to the prompt and applied to the findings.
+export async function* reviewCodeStream(
+  code: string,
+  fileName: string,
+  profileId?: string,
+  rules?: RepoRules | null,
+  diff?: string, // The file's pull request diff; the review is then limited to the changed lines
+  signal?: AbortSignal,
+  onRetry?: (info: RetryInfo) => void
+): AsyncGenerator<ReviewStreamEvent> {
+  // Starting the review is retried with the shared policy, so a 429 from the server's per-client limit waits for its
+  // Retry-After. Once the stream is open, the review runs to its end or fails.
+  const response = await withRetry(async () => {
+    const opened = await fetch('/api/review', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, fileName, profile: profileId, rules: rules ?? undefined, diff }),
+      signal,
+    });
+    if (!opened.ok) throw await readApiError(opened, 'get code review from server');
+    return opened;
+  }, { signal, onRetry });
+
+  for await (const { event } of readEventStream<ReviewStreamEvent>(response)) {
+    yield event;
+  }
 }
 
-export async function* reviewCodeStream(code: string, fileName: string): AsyncGenerator<string> {
-  const response = await fetch('/api/review', {
+// Streams a release-readiness report of a comparison from its commits and the reviews of its changed files.
+// `unreviewed` lists the changed files without a review (failed or cancelled), which count against a release.
+export async function* releaseSummaryStream(
+  repoUrl: string,
+  comparison: Comparison,
+  reviews: { path: string; result: ReviewResult }[],
+  unreviewed: string[],
+  signal?: AbortSignal
+): AsyncGenerator<ReleaseSummaryStreamEvent> {
+  const response = await fetch('/api/release-summary', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ code, fileName }),
+    body: JSON.stringify({
+      repoUrl,
+      base: comparison.base,
+      head: comparison.head ?? 'the default branch',
+      commits: comparison.commits.map(({ sha, message }) => ({ sha, message })),
+      totalCommits: comparison.totalCommits,
+      reviews: reviews.map(({ path, result }) => ({ path, summary: result.reviewComments, findings: result.findings })),
+      unreviewed,
+    }),
+    signal,
   });
 
   if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get code review from server: ${errorText}`);
+    throw await readApiError(response, 'get the release summary from server');
   }
 
-  yield* streamFetch(response);
+  for await (const { event } of readEventStream<ReleaseSummaryStreamEvent>(response)) {
+    yield event;
+  }
 }
 
-export async function lintCode(code: string, fileName: string): Promise<string> {
+export async function lintCode(code: string, fileName: string, signal?: AbortSignal): Promise<string> {
     const response = await fetch('/api/lint', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ code, fileName }),
+        signal,
     });
 
     if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to lint code from server: ${errorText}`);
+        throw await readApiError(response, 'lint code from server');
     }
     
     const data = await response.json();
@@ -55,75 +95,115 @@ export async function lintCode(code: string, fileName: string): Promise<string>
     return text.trim();
 }
 
+// The configured analysis tasks, and the server's limits on what an analysis reads.
+export async function fetchAnalysisTasks(signal?: AbortSignal): Promise<{ tasks: AnalysisTaskDefinition[]; limits: AnalysisLimits }> {
+    const response = await fetch('/api/analysis-tasks', { signal });
+    if (!response.ok) {
+        throw await readApiError(response, 'load analysis tasks from server');
+    }
+    return response.json();
+}
+
+export async function fetchReviewProfiles(signal?: AbortSignal): Promise<ReviewProfile[]> {
+    const response = await fetch('/api/review-profiles', { signal });
+    if (!response.ok) {
+        throw await readApiError(response, 'load review profiles from server');
+    }
+    const data = await response.json();
+    return data.profiles;
+}
+
+// Loads the review rules file (.codereview.yml) of a repository at `ref` through the server, which validates it.
+// Cached in the browser like the repository's files.
+export async function fetchRepoRules(repoUrl: string, ref: string | null, signal?: AbortSignal): Promise<RepoRulesInfo> {
+    return readThroughCache<RepoRulesInfo>(repoUrl, ['rules', ref ?? ''], cachePolicyFor(ref, 'fallback'), 'load the review rules', async () => {
+        const response = await fetch('/api/repo-rules', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ repoUrl, ref }),
+            signal,
+        });
+        if (!response.ok) {
+            throw await readApiError(response, 'load the review rules');
+        }
+        return response;
+    });
+}
+
+// Discovered paths are sent in chunks of up to this many, or sooner once discovery has run for a while.
+const PATH_CHUNK_SIZE = 100;
+const PATH_CHUNK_INTERVAL_MS = 2000;
+
+// Sends the paths of `pathsStream` to analysis job `jobId` in chunks; the last one starts the analysis.
+async function uploadAnalysisPaths(jobId: string, pathsStream: AsyncGenerator<string>, signal?: AbortSignal): Promise<void> {
+    let chunk: string[] = [];
+    let sentAt = Date.now();
+    const send = async (done: boolean) => {
+        const response = await fetch(`/api/analyze/${jobId}/paths`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ paths: chunk, done }),
+            signal,
+        });
+        if (!response.ok) throw await readApiError(response, 'send the file paths to the server');
+        chunk = [];
+        sentAt = Date.now();
+    };
+    for await (const path of pathsStream) {
+        if (signal?.aborted) break; // Stops the generator, which ends file discovery
+        chunk.push(path);
+        if (chunk.length >= PATH_CHUNK_SIZE || Date.now() - sentAt >= PATH_CHUNK_INTERVAL_MS) await send(false);
+    }
+    signal?.throwIfAborted();
+    await send(true);
+}
+
+// `taskIds` selects the configured analysis tasks to run; the server's defaults are used when omitted.
+// `ref` is the branch, tag or commit to analyze (null for the default branch); the server reports the commit
+// it resolved to in a 'source' event.
+// The job is started first and the paths follow in chunks as discovery yields them, so no request has to stay open
+// while discovery runs (it may pause for an hour until a rate limit resets). When discovery fails or is aborted, the
+// job is cancelled.
 export async function* analyzeRepositoryStream(
   repoUrl: string,
+  ref: string | null,
   pathsStream: AsyncGenerator<string>,
-  githubToken?: string
+  taskIds?: string[],
+  signal?: AbortSignal,
+  onJobId?: (jobId: string) => void
 ): AsyncGenerator<RepoAnalysisStreamEvent> {
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            // Send headers as a JSON string on the first line.
-            const headers = { repoUrl, githubToken };
-            controller.enqueue(encoder.encode(JSON.stringify(headers) + '\n'));
-
-            // Stream each path from the generator as it becomes available.
-            for await (const path of pathsStream) {
-                controller.enqueue(encoder.encode(path + '\n'));
-            }
-            controller.close();
-          } catch (error) {
-             // If the pathsStream generator throws an error (e.g., GitHub API fails),
-             // propagate the error to the readable stream.
-             controller.error(error);
-          }
-        }
-    });
+    // Stops following the job when the upload fails, so its error is reported rather than the cancellation.
+    const following = new AbortController();
+    const followSignal = signal ? AbortSignal.any([signal, following.signal]) : following.signal;
+    let uploadError: unknown = null;
 
     const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/octet-stream' },
-        body: stream,
-        // @ts-ignore - This is required for streaming request bodies in some environments.
-        duplex: 'half',
+        body: JSON.stringify({ repoUrl, ref, taskIds, pathsFollow: true }) + '\n',
+        signal: followSignal,
     });
 
-
-     if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to get repository analysis from server: ${errorText}`);
+    if (!response.ok) {
+        throw await readApiError(response, 'get repository analysis from server');
     }
-    
-    const reader = response.body!.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep the last, possibly incomplete, line
-
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('EVENT: ')) {
-                try {
-                    const event = JSON.parse(trimmedLine.substring(7));
-                    yield event as RepoAnalysisStreamEvent;
-                } catch(e) {
-                    console.error("Failed to parse analysis stream event:", e, "Line:", trimmedLine);
-                    // Yield a structured error event so the UI can display it for troubleshooting.
-                    yield { type: 'error', message: `[CLIENT PARSE ERROR] Failed to parse event: ${trimmedLine}` };
-                }
-            } else if (trimmedLine) { // If the line is not empty and not a standard event, treat it as a server log/error.
-                console.warn("Received non-event line from analysis stream:", trimmedLine);
-                // Yield a structured error event to make this visible in the UI for troubleshooting.
-                yield { type: 'error', message: `[SERVER LOG] ${trimmedLine}` };
-            }
-        }
+
+    let uploading = false;
+    const startUpload = (jobId: string) => {
+        onJobId?.(jobId);
+        if (uploading) return;
+        uploading = true;
+        uploadAnalysisPaths(jobId, pathsStream, signal).catch(error => {
+            cancelJob(jobId).catch(err => console.error(`Failed to cancel job ${jobId}:`, err));
+            if (signal?.aborted) return;
+            uploadError = error;
+            following.abort(error);
+        });
+    };
+
+    try {
+        yield* followJobEvents<RepoAnalysisStreamEvent>({ response }, followSignal, startUpload);
+    } catch (error) {
+        throw uploadError ?? error;
     }
 };
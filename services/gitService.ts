@@ -0,0 +1,419 @@
+
+import { applyPatch, parsePatch, reversePatch } from 'diff';
+import type { AnalysisLimits, RepoTreeNode, RepoTreeFolder, GitHost, GitTokenStatus, RepoRefs, RepoFileListing, RepoFileWithContent, PullRequest, PullRequestFile, ReviewResult, PullRequestReviewResult, Comparison } from '../types';
+import { withRetry, formatRetryMessage, HttpStatusError, DEFAULT_RETRY_POLICY, type RetryInfo, type RetryPolicy } from '../utils/retry.js';
+import { compilePathPatterns } from '../utils/pathGlobs.js';
+import { splitUnifiedDiff } from '../utils/unifiedDiff.js';
+import { parseRepoUrl, isCommitSha, BUILTIN_GIT_HOSTS } from '../utils/repoUrl.js';
+import { readApiError } from './apiClient';
+import { cacheKey, readCacheEntry, writeCacheEntry, isOfflineMode } from './repoCache';
+import { recordRateLimit, setRateLimitPause } from './rateLimit';
+
+// All repository reads go through the backend, which picks the host's provider (GitHub, GitLab, Gitea or
+// Bitbucket) from the URL and adds the token stored in the session for that host (or its own). Listings, files,
+// refs and commits are also cached in the browser (see readThroughCache); pull requests and comparisons are not.
+// The host's request budget that comes with each response is recorded in services/rateLimit.ts.
+
+// Helper to add a timeout to fetch requests. A caller-provided `options.signal` is honored as well.
+const fetchWithTimeout = async (resource: string, options: RequestInit = {}, timeout = 15000) => {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+    
+    const response = await fetch(resource, {
+        ...options,
+        signal
+    });
+    noteRateLimit(resource, response);
+    return response;
+};
+
+// Records the request budget a proxy route reported for the host of the repository in its `repoUrl` query parameter.
+const noteRateLimit = (resource: string, response: Response) => {
+    const repoUrl = new URLSearchParams(resource.split('?')[1]).get('repoUrl');
+    const location = repoUrl ? parseRepoUrl(repoUrl, knownHosts) : null;
+    if (location) recordRateLimit(location.host, response.headers);
+};
+
+// File discovery waits for a used-up rate limit to reset instead of failing; GitHub's resets at least hourly.
+const DISCOVERY_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, maxDelayMs: 60 * 60 * 1000 };
+
+
+export { parseRepoUrl, splitRefPath, BUILTIN_GIT_HOSTS } from '../utils/repoUrl.js';
+
+// Hosts the backend accepts, so that URLs of self-hosted instances map to cache entries as well.
+let knownHosts: GitHost[] = BUILTIN_GIT_HOSTS;
+
+// The hosts whose repository URLs the backend accepts: the built-in public ones plus any self-hosted ones it
+// is configured with.
+export async function fetchGitHosts(signal?: AbortSignal): Promise<GitHost[]> {
+    const response = await fetch('/api/git/hosts', { signal });
+    if (!response.ok) throw await readApiError(response, 'load the Git hosts');
+    const data = await response.json();
+    knownHosts = data.hosts;
+    return data.hosts;
+}
+
+// `ref` is a branch, tag or commit; null reads the default branch.
+const repoQuery = (repoUrl: string, ref: string | null, path = '') => new URLSearchParams({ repoUrl, ref: ref ?? '', path }).toString();
+
+// The name a repository's reads are cached under (services/repoCache.ts), e.g. "github.com/owner/repo"; null for URLs
+// that are not a repository on a known host.
+export const repoCacheName = (repoUrl: string): string | null => {
+    const location = parseRepoUrl(repoUrl, knownHosts);
+    return location && `${location.host}/${location.owner}/${location.repo}`;
+};
+
+// How readThroughCache treats a cached entry: 'immutable' ones (read at a commit SHA) are used without a request,
+// 'conditional' ones are revalidated with their ETag, and 'fallback' ones are always requested again and only
+// stand in for the backend in offline mode.
+export type CachePolicy = 'immutable' | 'conditional' | 'fallback';
+
+// Reads the JSON response of `request` through the browser cache; `parts` identify the entry within the repository.
+// `request` receives the headers to send and must accept a 304 response. `action` describes the read for errors.
+export const readThroughCache = async <T>(
+    repoUrl: string,
+    parts: string[],
+    policy: CachePolicy,
+    action: string,
+    request: (headers: Record<string, string>) => Promise<Response>,
+): Promise<T> => {
+    const repo = repoCacheName(repoUrl);
+    const key = repo && cacheKey(repo, ...parts);
+    const cached = key ? await readCacheEntry(key) : null;
+    if (isOfflineMode()) {
+        if (!cached) throw new Error(`Failed to ${action}: it is not cached, and offline mode is on.`);
+        return cached.data as T;
+    }
+    if (cached && policy === 'immutable') return cached.data as T;
+    const response = await request(cached?.etag && policy === 'conditional' ? { 'If-None-Match': cached.etag } : {});
+    if (response.status === 304 && cached) return cached.data as T;
+    const data = await response.json();
+    if (repo && key) void writeCacheEntry({ key, repo, etag: response.headers.get('ETag'), data });
+    return data;
+};
+
+// Entries read at a commit SHA never change.
+export const cachePolicyFor = (ref: string | null, revalidated: CachePolicy): CachePolicy => (isCommitSha(ref) ? 'immutable' : revalidated);
+
+// Fetches the top-level file tree for a repository
+export const fetchRepoRoot = async (repoUrl: string, ref: string | null): Promise<RepoTreeNode[]> => {
+  return fetchFolderContents(repoUrl, ref, '');
+};
+
+
+// Fetches the contents of a specific folder, sorted folders first. Folders come with `children: null` (lazy-loadable).
+// Transient failures (5xx, rate limits with a short reset) are retried with the shared policy, or with `policy`.
+export const fetchFolderContents = async (
+    repoUrl: string,
+    ref: string | null,
+    path: string,
+    signal?: AbortSignal,
+    onRetry?: (info: RetryInfo) => void,
+    policy?: RetryPolicy
+): Promise<RepoTreeNode[]> => {
+    const action = `list ${path || 'the repository root'}`;
+    const data = await readThroughCache<{ nodes: RepoTreeNode[] }>(repoUrl, ['folder', ref ?? '', path], cachePolicyFor(ref, 'conditional'), action, headers =>
+        withRetry(async () => {
+            const response = await fetchWithTimeout(`/api/git/contents?${repoQuery(repoUrl, ref, path)}`, { headers, signal });
+            if (!response.ok && response.status !== 304) throw await readApiError(response, action);
+            return response;
+        }, { signal, onRetry, policy }));
+    return data.nodes;
+};
+
+// Fetches one file for review. Files the server does not decode (binary files, Git LFS pointers and files above its
+// size ceiling) come back without content and with the reason in `error`, so they are listed as unreviewable.
+// `sha` is the file's blob SHA from the tree listing, if known: it joins the cache key, and makes the entry immutable.
+export const fetchRepoFile = async (repoUrl: string, ref: string | null, path: string, signal?: AbortSignal, sha?: string): Promise<RepoFileWithContent> => {
+    const parts = ['file', ref ?? '', path, ...(sha ? [sha] : [])];
+    const data = await readThroughCache<{ content: string | null; unreviewable?: string }>(repoUrl, parts, sha ? 'immutable' : cachePolicyFor(ref, 'conditional'), `fetch ${path}`, headers =>
+        withRetry(async () => {
+            const response = await fetchWithTimeout(`/api/git/file?${repoQuery(repoUrl, ref, path)}`, { headers, signal });
+            if (!response.ok && response.status !== 304) throw await readApiError(response, `fetch ${path}`);
+            return response;
+        }, { signal }));
+    if (data.content === null) return { path, content: '', error: `Cannot be reviewed: ${data.unreviewable}.` };
+    return { path, content: data.content };
+};
+
+// Lists the repository's branches and tags for the ref picker.
+export async function fetchRepoRefs(repoUrl: string, signal?: AbortSignal): Promise<RepoRefs> {
+    return readThroughCache<RepoRefs>(repoUrl, ['refs'], 'fallback', 'list the branches and tags', async () => {
+        const url = `/api/git/refs?${repoQuery(repoUrl, null)}`;
+        const response = await fetch(url, { signal });
+        noteRateLimit(url, response);
+        if (!response.ok) throw await readApiError(response, 'list the branches and tags');
+        return response;
+    });
+}
+
+// Resolves a branch, tag or commit (null for the default branch) to the SHA of its commit.
+export async function resolveRepoCommit(repoUrl: string, ref: string | null, signal?: AbortSignal): Promise<string> {
+    const action = `resolve ${ref ?? 'the default branch'}`;
+    const data = await readThroughCache<{ commit: string }>(repoUrl, ['commit', ref ?? ''], 'fallback', action, async () => {
+        const url = `/api/git/commit?${repoQuery(repoUrl, ref)}`;
+        const response = await fetch(url, { signal });
+        noteRateLimit(url, response);
+        if (!response.ok) throw await readApiError(response, action);
+        return response;
+    });
+    return data.commit;
+}
+
+// Loads a pull request (a merge request on GitLab) with its diff split per file.
+export async function fetchPullRequest(repoUrl: string, number: number, signal?: AbortSignal): Promise<PullRequest> {
+    const query = new URLSearchParams({ repoUrl, number: String(number) });
+    const [pullResponse, diffResponse] = await Promise.all([
+        fetchWithTimeout(`/api/git/pull?${query}`, { signal }),
+        fetchWithTimeout(`/api/git/pull-diff?${query}`, { signal }, 60000),
+    ]);
+    if (!pullResponse.ok) throw await readApiError(pullResponse, `load pull request #${number}`);
+    if (!diffResponse.ok) throw await readApiError(diffResponse, `load the diff of pull request #${number}`);
+    const pull = await pullResponse.json();
+    return { ...pull, files: splitUnifiedDiff(await diffResponse.text()) };
+}
+
+// Compares `head` (null for the default branch) with `base` the way a pull request would, with the diff split per file.
+export async function fetchComparison(repoUrl: string, base: string, head: string | null, signal?: AbortSignal): Promise<Comparison> {
+    const query = new URLSearchParams({ repoUrl, base, head: head ?? '' });
+    const response = await fetchWithTimeout(`/api/git/compare?${query}`, { signal }, 60000);
+    if (!response.ok) throw await readApiError(response, `compare ${head ?? 'the default branch'} with ${base}`);
+    const { diff, ...comparison } = await response.json();
+    return { ...comparison, files: splitUnifiedDiff(diff) };
+}
+
+// Reads a changed file of a pull request or comparison for review: the file at the head commit, its patch and the
+// file before the change. The latter is rebuilt by reverting the patch, so it matches the diff even where the base
+// branch has moved on; when the patch does not apply it is read at the base commit instead.
+export async function fetchChangedFile(
+    repoUrl: string,
+    { baseCommit, headCommit }: { baseCommit: string; headCommit: string },
+    file: PullRequestFile,
+    signal?: AbortSignal,
+): Promise<RepoFileWithContent> {
+    const head = await fetchRepoFile(repoUrl, headCommit, file.path, signal);
+    if (head.error) return head;
+    const { content } = head;
+    if (file.status === 'added') return { path: file.path, content, baseContent: '', patch: file.patch };
+    const [parsed] = parsePatch(file.patch);
+    const reverted = parsed ? applyPatch(content, reversePatch(parsed)) : false;
+    if (reverted !== false) return { path: file.path, content, baseContent: reverted, patch: file.patch };
+    // A file that only became text with the change (e.g. moved out of Git LFS) is compared with an empty file.
+    const base = await fetchRepoFile(repoUrl, baseCommit, file.previousPath ?? file.path, signal);
+    return { path: file.path, content, baseContent: base.error ? '' : base.content, patch: file.patch };
+}
+
+// Turns the review of a pull request file into a review on the pull request (GitHub only), one comment per finding
+// on the lines of the diff, optionally with suggestions built from the corrected code. Findings that were posted
+// before are skipped. With `dryRun` the review is only built, so it can be previewed.
+export async function postPullRequestReview(
+    repoUrl: string,
+    pull: PullRequest,
+    file: RepoFileWithContent,
+    review: ReviewResult,
+    options: { suggestions: boolean; dryRun: boolean },
+    signal?: AbortSignal,
+): Promise<PullRequestReviewResult> {
+    const response = await fetchWithTimeout('/api/git/pull-review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            repoUrl,
+            number: pull.number,
+            commit: pull.headCommit,
+            path: file.path,
+            code: file.content,
+            correctedCode: review.correctedCode,
+            summary: review.reviewComments,
+            findings: review.findings,
+            ...options,
+        }),
+        signal,
+    }, 60000);
+    if (!response.ok) throw await readApiError(response, options.dryRun ? 'preview the review' : `post the review to pull request #${pull.number}`);
+    return response.json();
+}
+
+// Builds a fully loaded tree (no lazy folders) of the given paths, e.g. the files a pull request changes.
+export const buildTreeFromPaths = (paths: string[]): RepoTreeNode[] => {
+    const root: RepoTreeFolder = { type: 'folder', path: '', name: '', children: [] };
+    for (const path of paths) {
+        const segments = path.split('/');
+        let folder = root;
+        segments.slice(0, -1).forEach((name, index) => {
+            const folderPath = segments.slice(0, index + 1).join('/');
+            let child = folder.children!.find((node): node is RepoTreeFolder => node.type === 'folder' && node.path === folderPath);
+            if (!child) {
+                child = { type: 'folder', path: folderPath, name, children: [] };
+                folder.children!.push(child);
+            }
+            folder = child;
+        });
+        folder.children!.push({ type: 'file', path, name: segments.at(-1)!, size: 0 });
+    }
+    const sort = (nodes: RepoTreeNode[]): RepoTreeNode[] => nodes
+        .map(node => (node.type === 'folder' ? { ...node, children: sort(node.children!) } : node))
+        .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1));
+    return sort(root.children!);
+};
+
+// Where the backend's token for `host` comes from. The token itself never comes back to the browser.
+export async function getGitTokenStatus(host: string, signal?: AbortSignal): Promise<GitTokenStatus> {
+    const response = await fetch(`/api/git/token?${new URLSearchParams({ host })}`, { signal });
+    if (!response.ok) throw await readApiError(response, 'check the token');
+    return response.json();
+}
+
+// Hands a token for `host` to the backend, which checks it with the host and keeps it in this browser's session.
+export async function saveGitToken(host: string, token: string): Promise<GitTokenStatus> {
+    const response = await fetch('/api/git/token', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ host, token }),
+    });
+    if (!response.ok) throw await readApiError(response, 'save the token');
+    return response.json();
+}
+
+export async function removeGitToken(host: string): Promise<void> {
+    const response = await fetch(`/api/git/token?${new URLSearchParams({ host })}`, { method: 'DELETE' });
+    if (!response.ok) throw await readApiError(response, 'remove the token');
+}
+
+// Lists every file of the repository in one request (one per page on some hosts).
+export async function fetchRepoTree(
+    repoUrl: string,
+    ref: string | null,
+    signal?: AbortSignal,
+    onRetry?: (info: RetryInfo) => void,
+    policy?: RetryPolicy
+): Promise<RepoFileListing> {
+    return readThroughCache<RepoFileListing>(repoUrl, ['tree', ref ?? ''], cachePolicyFor(ref, 'fallback'), 'list the repository files', () =>
+        withRetry(async () => {
+            const response = await fetchWithTimeout(`/api/git/tree?${repoQuery(repoUrl, ref)}`, { signal }, 60000);
+            if (!response.ok) throw await readApiError(response, 'list the repository files');
+            return response;
+        }, { signal, onRetry, policy }));
+}
+
+// Estimates how many host requests an analysis makes from the repository's file tree, the way the server goes about
+// it: of the first `limits.maxFiles` files that are not ignored, every one is downloaded except those the tree lists
+// with a blob SHA and a size above `limits.maxFileBytes`, which are skipped unread. A few more requests resolve the
+// commit and read the review rules and the tree. `truncated` when the host listed only part of the tree and the file
+// limit was not reached, so the estimate is a lower bound. Null when the tree cannot be listed.
+export async function estimateAnalysisRequests(
+    repoUrl: string,
+    ref: string | null,
+    ignorePatterns: string[],
+    limits: AnalysisLimits,
+    signal?: AbortSignal
+): Promise<{ requests: number; truncated: boolean } | null> {
+    try {
+        const listing = await fetchRepoTree(repoUrl, ref, signal);
+        const isIgnored = compilePathPatterns(ignorePatterns);
+        const analyzed = listing.files.filter(file => !isIgnored(file.path)).slice(0, limits.maxFiles);
+        const isRefused = (file: RepoFileListing['files'][number]) =>
+            !!limits.maxFileBytes && !!file.sha && file.size !== undefined && file.size > limits.maxFileBytes;
+        return {
+            requests: analyzed.filter(file => !isRefused(file)).length + 3,
+            truncated: listing.truncated && analyzed.length < limits.maxFiles,
+        };
+    } catch (e) {
+        signal?.throwIfAborted();
+        return null;
+    }
+}
+
+// Yields the repository's file paths. The full tree is listed with a single request; when the host truncates it
+// (or it cannot be listed), the directories are crawled one by one from `initialTree` instead.
+// Files and folders matching `ignorePatterns` (globs from the repository's review rules) are skipped.
+// When the host's rate limit is used up, discovery pauses until it resets (noted in services/rateLimit.ts for the
+// header's countdown) and then carries on.
+export async function* streamAllFilePaths(
+  repoUrl: string,
+  ref: string | null,
+  initialTree: RepoTreeNode[],
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal,
+  ignorePatterns: string[] = []
+): AsyncGenerator<string> {
+    const isIgnored = compilePathPatterns(ignorePatterns);
+    const host = parseRepoUrl(repoUrl, knownHosts)?.host;
+    const reportRetry = (label: string, info: RetryInfo) => {
+        if (!(info.error instanceof HttpStatusError && info.error.status === 429)) {
+            onProgress?.(`[SYSTEM] ${formatRetryMessage(label, info)}`);
+            return;
+        }
+        const resumeAt = Date.now() + info.delayMs;
+        if (host) setRateLimitPause(host, resumeAt);
+        onProgress?.(`[SYSTEM] The rate limit of ${host ?? 'the host'} is used up. Pausing the ${label} until ${new Date(resumeAt).toLocaleTimeString()}...`);
+    };
+
+    try {
+        try {
+            const listing = await fetchRepoTree(repoUrl, ref, signal, info => reportRetry('listing of the file tree', info), DISCOVERY_RETRY_POLICY);
+            if (!listing.truncated) {
+                const paths = listing.files.map(file => file.path).filter(path => !isIgnored(path));
+                onProgress?.(`Listed ${listing.files.length} files in the file tree (${listing.files.length - paths.length} ignored).`);
+                yield* paths;
+                return;
+            }
+            onProgress?.('[SYSTEM] The file tree is too large to list at once. Scanning directories instead...');
+        } catch (e) {
+            signal?.throwIfAborted();
+            const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+            onProgress?.(`[SYSTEM] Could not list the file tree (${errorMessage}). Scanning directories instead...`);
+        }
+        yield* crawlFilePaths(repoUrl, ref, initialTree, isIgnored, reportRetry, onProgress, signal);
+    } finally {
+        // Also ends the countdown when discovery is cancelled during a pause.
+        if (host) setRateLimitPause(host, null);
+    }
+}
+
+// Traverses the repository one directory listing at a time, yielding file paths as they are discovered.
+async function* crawlFilePaths(
+  repoUrl: string,
+  ref: string | null,
+  initialTree: RepoTreeNode[],
+  isIgnored: (path: string) => boolean,
+  reportRetry: (label: string, info: RetryInfo) => void,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+    // Start with a copy of the initial tree to avoid modifying the original state directly.
+    const foldersToScan: RepoTreeNode[] = [...initialTree]; 
+    const scannedPaths = new Set<string>();
+
+    while (foldersToScan.length > 0) {
+        signal?.throwIfAborted();
+        const node = foldersToScan.pop()!;
+        
+        if (scannedPaths.has(node.path)) continue;
+        scannedPaths.add(node.path);
+
+        if (isIgnored(node.path)) {
+            if (node.type === 'folder') onProgress?.(`Skipping ignored directory: ${node.path}`);
+            continue;
+        }
+
+        if (node.type === 'file') {
+            yield node.path;
+        } else if (node.type === 'folder') {
+            onProgress?.(`Scanning directory: ${node.path || '/'}`);
+            try {
+                // Fetch the contents of the directory.
+                const onRetry = (info: RetryInfo) => reportRetry(`scan of '${node.path || '/'}'`, info);
+                const children = await fetchFolderContents(repoUrl, ref, node.path, signal, onRetry, DISCOVERY_RETRY_POLICY);
+                // Add children to the scan queue in reverse to maintain a somewhat-depth-first order with pop().
+                foldersToScan.push(...[...children].reverse());
+            } catch (e) {
+                signal?.throwIfAborted();
+                const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+                onProgress?.(`[ERROR] Failed to scan directory '${node.path || '/'}': ${errorMessage}`);
+                // Re-throw the error to halt the generator and signal the failure to the caller.
+                throw new Error(`Halting discovery. Could not scan directory: ${node.path}. Reason: ${errorMessage}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,78 @@
+import type { JobSummary, JobDetails, JobStreamControlEvent } from '../types';
+import { readEventStream } from './eventStream';
+import { readApiError } from './apiClient';
+import { withRetry, formatRetryMessage, type RetryPolicy } from '../utils/retry.js';
+
+// Reconnecting after a dropped event stream waits longer than a normal retry, e.g. for Wi-Fi after a laptop wakes up.
+const RESUME_RETRY_POLICY: RetryPolicy = { maxAttempts: 8, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export async function listJobs(signal?: AbortSignal): Promise<JobSummary[]> {
+    const response = await fetch('/api/jobs', { signal });
+    if (!response.ok) throw await readApiError(response, 'list jobs');
+    const data = await response.json();
+    return data.jobs;
+}
+
+export async function getJob(jobId: string, signal?: AbortSignal): Promise<JobDetails> {
+    const response = await fetch(`/api/jobs/${jobId}`, { signal });
+    if (!response.ok) throw await readApiError(response, 'load the job');
+    return response.json();
+}
+
+// `keepalive` lets the request complete even if the page is being closed.
+export async function cancelJob(jobId: string): Promise<void> {
+    const response = await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST', keepalive: true });
+    if (!response.ok) throw await readApiError(response, 'cancel the job');
+}
+
+export async function deleteJob(jobId: string): Promise<void> {
+    const response = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+    if (!response.ok) throw await readApiError(response, 'delete the job');
+}
+
+/**
+ * Yields a job's events until its final `done` event, reconnecting with Last-Event-ID whenever the connection
+ * drops. Pass `response` to continue an already open event stream (e.g. from POST /api/analyze) whose `session`
+ * event announces the job id; otherwise the stream of `jobId` is opened from the beginning.
+ * Aborting `signal` only stops following; the job keeps running on the server until cancelJob is called.
+ */
+export async function* followJobEvents<T extends { type: string }>(
+    source: { jobId: string, response?: undefined } | { jobId?: undefined, response: Response },
+    signal?: AbortSignal,
+    onJobId?: (jobId: string) => void
+): AsyncGenerator<T | { type: 'system', message: string } | { type: 'error', message: string }> {
+    let jobId = source.jobId ?? null;
+    let response = source.response ?? null;
+    let lastEventId = '';
+
+    while (true) {
+        if (!response) {
+            const url = `/api/jobs/${jobId}/events`;
+            response = await withRetry(async () => {
+                const opened = await fetch(url, { headers: { 'Last-Event-ID': lastEventId }, signal });
+                if (!opened.ok) throw await readApiError(opened, 'follow the job');
+                return opened;
+            }, { policy: RESUME_RETRY_POLICY, signal, onRetry: (info) => console.warn(formatRetryMessage('job event stream', info)) });
+        }
+
+        try {
+            for await (const { id, event } of readEventStream<T | JobStreamControlEvent>(response)) {
+                if (id) lastEventId = id;
+                if (event.type === 'session') {
+                    jobId = (event as JobStreamControlEvent & { type: 'session' }).jobId;
+                    onJobId?.(jobId);
+                    continue;
+                }
+                if (event.type === 'done') return;
+                yield event as T | { type: 'error', message: string };
+            }
+        } catch (error) {
+            if (signal?.aborted || !jobId) throw error;
+        }
+
+        // The stream ended without the final `done` event, so the connection dropped: resume where it stopped.
+        if (!jobId) throw new Error('The connection to the server was lost before the job started.');
+        yield { type: 'system', message: `[SYSTEM] Connection lost. Resuming after event #${lastEventId || 0}...` };
+        response = null;
+    }
+}
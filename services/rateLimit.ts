@@ -0,0 +1,46 @@
+import type { GitRateLimit } from '../types';
+
+// The Git hosts' request budgets, per host. The backend passes on what the host reports with every response of its
+// /api/git routes (X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset, see reportRateLimit in server.js),
+// and gitService.ts records them here. File discovery also notes here when it waits for a host's limit to reset, so
+// the header can count down to it.
+
+// Dispatched on `window` whenever a budget or a pause changes.
+export const RATE_LIMIT_CHANGED_EVENT = 'rate-limit-changed';
+
+const budgets = new Map<string, GitRateLimit>();
+
+const notifyChange = () => window.dispatchEvent(new Event(RATE_LIMIT_CHANGED_EVENT));
+
+// The last reported budget of `host`, or null when none was reported. Once its window has ended, the full limit is
+// available again.
+export const getRateLimit = (host: string): GitRateLimit | null => {
+    const budget = budgets.get(host);
+    if (!budget || budget.resetAt > Date.now()) return budget ?? null;
+    return budget.limit === null ? null : { ...budget, remaining: budget.limit };
+};
+
+// Records the budget in the headers of a backend response; responses without one (e.g. from Bitbucket) are ignored.
+export const recordRateLimit = (host: string, headers: Headers) => {
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (remaining === null || reset === null) return;
+    const limit = headers.get('X-RateLimit-Limit');
+    budgets.set(host, {
+        host,
+        limit: limit === null ? null : Number(limit),
+        remaining: Number(remaining),
+        resetAt: Number(reset) * 1000,
+        pausedUntil: budgets.get(host)?.pausedUntil ?? null,
+    });
+    notifyChange();
+};
+
+// Notes that discovery waits for `host` until `resumeAt` (null once it stopped waiting).
+export const setRateLimitPause = (host: string, resumeAt: number | null) => {
+    const budget = budgets.get(host);
+    if (!budget && resumeAt === null) return;
+    // Discovery only pauses when the host reported its budget used up, until the reset.
+    budgets.set(host, { ...(budget ?? { host, limit: null, remaining: 0, resetAt: resumeAt! }), pausedUntil: resumeAt });
+    notifyChange();
+};
@@ -0,0 +1,173 @@
+// Browser cache of repository reads (folder listings, file contents, file trees, ref lists and resolved commits) in
+// IndexedDB, grouped per repository ("host/owner/repo"). gitService.ts reads through it:
+// - entries read at a commit SHA never change, so they are used without asking the backend;
+// - folder listings and files at a branch or tag are revalidated with their ETag (If-None-Match), which the backend
+//   passes on to the host; an unchanged one comes back as 304, which GitHub does not count against the rate limit;
+// - in offline mode nothing is requested, and only what is cached can be browsed and reviewed.
+// The cache may hold private repositories, so it is cleared when the user signs out or the session expires, and a
+// host's entries are purged when its token is removed. Above MAX_CACHE_BYTES the oldest entries are evicted.
+// Without IndexedDB (e.g. in some private browsing modes) every read misses and writes are dropped.
+
+export interface RepoCacheEntry {
+    key: string;
+    repo: string;
+    etag: string | null;
+    data: unknown;
+    bytes: number; // Size of `data` as JSON
+    storedAt: number;
+}
+
+export interface RepoCacheUsage {
+    repo: string;
+    entries: number;
+    bytes: number;
+}
+
+// Dispatched on `window` whenever entries are written or purged, and when offline mode is switched.
+export const REPO_CACHE_CHANGED_EVENT = 'repo-cache-changed';
+
+const DB_NAME = 'repo-cache';
+const DB_VERSION = 2;
+const STORE = 'entries';
+
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const store = event.oldVersion < 1
+                ? request.result.createObjectStore(STORE, { keyPath: 'key' })
+                : request.transaction!.objectStore(STORE);
+            if (event.oldVersion < 1) store.createIndex('repo', 'repo');
+            // Version 2: eviction goes by age.
+            if (event.oldVersion < 2) store.createIndex('storedAt', 'storedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch(error => {
+        database = null;
+        throw error;
+    });
+    return database;
+};
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const notifyChange = () => window.dispatchEvent(new Event(REPO_CACHE_CHANGED_EVENT));
+
+// Identifies an entry of `repo`, e.g. cacheKey(repo, 'folder', 'main', 'src').
+export const cacheKey = (repo: string, ...parts: string[]) => JSON.stringify([repo, ...parts]);
+
+export async function readCacheEntry(key: string): Promise<RepoCacheEntry | null> {
+    try {
+        const db = await openDatabase();
+        return (await settle<RepoCacheEntry | undefined>(db.transaction(STORE).objectStore(STORE).get(key))) ?? null;
+    } catch (err) {
+        console.warn('Could not read the repository cache:', err);
+        return null;
+    }
+}
+
+export async function writeCacheEntry(entry: Omit<RepoCacheEntry, 'bytes' | 'storedAt'>): Promise<void> {
+    const bytes = new TextEncoder().encode(JSON.stringify(entry.data)).length;
+    try {
+        const db = await openDatabase();
+        await settle(db.transaction(STORE, 'readwrite').objectStore(STORE).put({ ...entry, bytes, storedAt: Date.now() }));
+        notifyChange();
+        scheduleEviction();
+    } catch (err) {
+        // A full quota only costs the caching.
+        console.warn('Could not write to the repository cache:', err);
+    }
+}
+
+// Entries and bytes per cached repository, largest first.
+export async function getCacheUsage(): Promise<RepoCacheUsage[]> {
+    const usage = new Map<string, RepoCacheUsage>();
+    try {
+        const db = await openDatabase();
+        // A cursor holds one entry at a time, where getAll() would load every cached file at once.
+        await new Promise<void>((resolve, reject) => {
+            const request = db.transaction(STORE).objectStore(STORE).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve();
+                const { repo, bytes } = cursor.value as RepoCacheEntry;
+                const total = usage.get(repo) ?? { repo, entries: 0, bytes: 0 };
+                total.entries += 1;
+                total.bytes += bytes;
+                usage.set(repo, total);
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    } catch (err) {
+        console.warn('Could not read the repository cache:', err);
+    }
+    return [...usage.values()].sort((a, b) => b.bytes - a.bytes);
+}
+
+// Deletes the oldest entries (by the time they were written) until the cache is within MAX_CACHE_BYTES.
+async function evictOldestEntries(): Promise<void> {
+    try {
+        let excess = (await getCacheUsage()).reduce((sum, { bytes }) => sum + bytes, 0) - MAX_CACHE_BYTES;
+        if (excess <= 0) return;
+        const db = await openDatabase();
+        await new Promise<void>((resolve, reject) => {
+            const request = db.transaction(STORE, 'readwrite').objectStore(STORE).index('storedAt').openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor || excess <= 0) return resolve();
+                excess -= (cursor.value as RepoCacheEntry).bytes;
+                cursor.delete();
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+        notifyChange();
+    } catch (err) {
+        console.warn('Could not evict entries from the repository cache:', err);
+    }
+}
+
+// Discovery writes many entries in a row; the size is checked once they settle.
+let evictionTimer: ReturnType<typeof setTimeout> | undefined;
+const scheduleEviction = () => {
+    clearTimeout(evictionTimer);
+    evictionTimer = setTimeout(evictOldestEntries, 2000);
+};
+
+const deleteRepos = async (repos: IDBKeyRange) => {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const keys = await settle(store.index('repo').getAllKeys(repos));
+    await Promise.all(keys.map(key => settle(store.delete(key))));
+    notifyChange();
+};
+
+export const purgeRepoCache = (repo: string) => deleteRepos(IDBKeyRange.only(repo));
+
+// Deletes the entries of every repository on `host`, e.g. once its token is removed.
+export const purgeHostCache = (host: string) => deleteRepos(IDBKeyRange.bound(`${host}/`, `${host}/\uffff`));
+
+// Deletes every entry, e.g. when the user signs out.
+export async function clearRepoCache(): Promise<void> {
+    const db = await openDatabase();
+    await settle(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    notifyChange();
+}
+
+let offlineMode = false;
+
+export const isOfflineMode = () => offlineMode;
+
+export const setOfflineMode = (offline: boolean) => {
+    offlineMode = offline;
+    notifyChange();
+};
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRetries, withTokenBudget } from '../server/llm/index.js';
+import { createTokenBudget, estimateTokens } from '../server/usageLimits.js';
+import { HttpStatusError } from '../utils/retry.js';
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10 };
+const PROMPT = 'Review this file, please.';
+
+// A provider that answers 503 to the first `failures` calls.
+const createFlakyProvider = (failures) => {
+    let calls = 0;
+    const fail = () => {
+        calls++;
+        if (calls <= failures) throw new HttpStatusError('Service unavailable', 503);
+    };
+    return {
+        name: 'flaky',
+        async *stream() {
+            fail();
+            yield 'Fine.';
+        },
+        async generate() {
+            fail();
+            return 'Fine.';
+        },
+    };
+};
+
+test('charges the prompt for every attempt of a retried call', async () => {
+    const budget = createTokenBudget({ dailyLimit: 0 });
+    const llm = withRetries(withTokenBudget(createFlakyProvider(2), budget, 'client-1'), POLICY);
+    assert.equal(await llm.generate(PROMPT), 'Fine.');
+    assert.equal(budget.usage('client-1').used, 3 * estimateTokens(PROMPT) + estimateTokens('Fine.'));
+});
+
+test('charges the prompt for every attempt of a retried stream', async () => {
+    const budget = createTokenBudget({ dailyLimit: 0 });
+    const llm = withRetries(withTokenBudget(createFlakyProvider(1), budget, 'client-1'), POLICY);
+    const chunks = [];
+    for await (const chunk of llm.stream(PROMPT)) chunks.push(chunk);
+    assert.deepEqual(chunks, ['Fine.']);
+    assert.equal(budget.usage('client-1').used, 2 * estimateTokens(PROMPT) + estimateTokens('Fine.'));
+});
+
+test('stops retrying once the budget is spent', async () => {
+    const budget = createTokenBudget({ dailyLimit: estimateTokens(PROMPT) });
+    const llm = withRetries(withTokenBudget(createFlakyProvider(2), budget, 'client-1'), POLICY);
+    await assert.rejects(llm.generate(PROMPT), /Daily token budget/);
+    assert.equal(budget.usage('client-1').used, estimateTokens(PROMPT));
+});
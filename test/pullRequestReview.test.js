@@ -0,0 +1,221 @@
+import { test, describe, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer as createHttpServer } from 'node:http';
+import { once } from 'node:events';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { buildPullRequestReview, readPostedKeys } from '../server/pullRequestReview.js';
+import { hunkLineRanges } from '../utils/unifiedDiff.js';
+import { startServer, ORIGIN } from './startServer.js';
+
+const patch = [
+    'diff --git a/app.js b/app.js',
+    '--- a/app.js',
+    '+++ b/app.js',
+    '@@ -1,3 +1,4 @@',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '+const c = b;',
+    ' export { a };',
+    '@@ -8,2 +9,0 @@',
+    '-removed();',
+    '-removed();',
+    '@@ -20 +20 @@',
+    '-old();',
+    '+run();',
+].join('\n');
+
+const code = ['const a = 1;', 'const b = 3;', 'const c = b;', 'export { a };', ...Array.from({ length: 16 }, () => ''), 'run();'].join('\n');
+
+const finding = (fields) => ({
+    severity: 'medium',
+    category: 'bug',
+    title: 'A finding',
+    explanation: 'Why it matters.',
+    ...fields,
+});
+
+const build = (fields) => buildPullRequestReview({
+    path: 'app.js',
+    patch,
+    code,
+    correctedCode: null,
+    summary: 'Looks fine.',
+    findings: [],
+    commit: 'abc123',
+    suggestions: false,
+    postedKeys: new Set(),
+    ...fields,
+});
+
+test('hunkLineRanges lists the new-side lines of each hunk', () => {
+    assert.deepEqual(hunkLineRanges(patch), [[1, 4], [20, 20]]);
+});
+
+test('hunkLineRanges ignores text that is not a hunk header', () => {
+    assert.deepEqual(hunkLineRanges('diff --git a/x b/x\nBinary files a/x and b/x differ'), []);
+});
+
+test('comments on findings within a hunk and skips the others', () => {
+    const { review, skipped } = build({
+        findings: [finding({ title: 'In the hunk', startLine: 2, endLine: 3 }), finding({ title: 'Outside', startLine: 10, endLine: 12 })],
+    });
+    assert.equal(review.commit, 'abc123');
+    assert.match(review.body, /Automated review of `app.js`\.\n\nLooks fine\./);
+    assert.equal(review.comments.length, 1);
+    const [comment] = review.comments;
+    assert.deepEqual({ path: comment.path, startLine: comment.startLine, line: comment.line }, { path: 'app.js', startLine: 2, line: 3 });
+    assert.match(comment.body, /^\*\*medium\*\* · bug · In the hunk/);
+    assert.match(comment.body, /<!-- code-reviewer:[0-9a-f]{16} -->$/);
+    assert.deepEqual(skipped, [{ title: 'Outside', startLine: 10, endLine: 12, reason: 'not on a line of the diff' }]);
+});
+
+test('cuts findings to the hunk they overlap', () => {
+    const { review } = build({ findings: [finding({ startLine: 3, endLine: 8 })] });
+    assert.deepEqual([review.comments[0].startLine, review.comments[0].line], [3, 4]);
+});
+
+test('skips findings whose marker is already posted', () => {
+    const findings = [finding({ startLine: 20, endLine: 20 })];
+    const first = build({ findings });
+    const postedKeys = readPostedKeys(first.review.comments);
+    assert.equal(postedKeys.size, 1);
+    const second = build({ findings, postedKeys });
+    assert.deepEqual(second.review.comments, []);
+    assert.equal(second.skipped[0].reason, 'already posted');
+});
+
+test('suggests the lines of the corrected code', () => {
+    const correctedCode = code.replace('const b = 3;', 'const b = 4;');
+    const { review } = build({ findings: [finding({ startLine: 2, endLine: 2 })], suggestions: true, correctedCode });
+    assert.match(review.comments[0].body, /```suggestion\nconst b = 4;\n```/);
+});
+
+test('falls back to the suggested replacement when there is no corrected code', () => {
+    const { review } = build({
+        findings: [finding({ startLine: 20, endLine: 20, suggestedReplacement: 'runSafely();\n' })],
+        suggestions: true,
+    });
+    assert.match(review.comments[0].body, /```suggestion\nrunSafely\(\);\n```/);
+});
+
+test('leaves out suggestions that change nothing', () => {
+    const { review } = build({ findings: [finding({ startLine: 2, endLine: 2 })], suggestions: true, correctedCode: code });
+    assert.doesNotMatch(review.comments[0].body, /suggestion/);
+});
+
+// --- POST /api/git/pull-review against a local mock of the GitHub API ---
+
+const HEAD_COMMIT = 'a'.repeat(40);
+const REPO_URL = 'https://github.test/owner/repo';
+
+// Answers the requests the route makes for pull request #7 and records the reviews posted to it.
+const startMockGitHub = async () => {
+    const posted = [];
+    const host = createHttpServer(async (req, res) => {
+        const send = (status, body, type = 'application/json') => {
+            res.writeHead(status, { 'Content-Type': type });
+            res.end(type === 'application/json' ? JSON.stringify(body) : body);
+        };
+        const url = new URL(req.url, 'http://localhost');
+        if (req.method === 'GET' && url.pathname === '/repos/owner/repo/pulls/7') {
+            if (req.headers.accept === 'application/vnd.github.diff') return send(200, patch, 'text/plain');
+            return send(200, {
+                title: 'Change b',
+                html_url: 'https://github.test/owner/repo/pull/7',
+                base: { ref: 'main', sha: 'b'.repeat(40) },
+                head: { ref: 'feature', sha: HEAD_COMMIT },
+            });
+        }
+        if (req.method === 'GET' && url.pathname === '/repos/owner/repo/pulls/7/comments') {
+            return send(200, posted.flatMap(review => review.comments.map(({ path, body }) => ({ path, body }))));
+        }
+        if (req.method === 'POST' && url.pathname === '/repos/owner/repo/pulls/7/reviews') {
+            let body = '';
+            for await (const chunk of req) body += chunk;
+            posted.push(JSON.parse(body));
+            return send(200, { id: posted.length, html_url: `https://github.test/owner/repo/pull/7#review-${posted.length}` });
+        }
+        send(404, { message: 'Not Found' });
+    }).listen(0);
+    await once(host, 'listening');
+    return { apiBase: `http://localhost:${host.address().port}`, posted, close: () => host.close() };
+};
+
+describe('POST /api/git/pull-review', () => {
+    let mock;
+    let server;
+
+    before(async () => {
+        mock = await startMockGitHub();
+        server = await startServer(async (dataDir) => {
+            const hostsFile = join(dataDir, 'git-hosts.json');
+            await writeFile(hostsFile, JSON.stringify([{ host: 'github.test', provider: 'github', apiBase: mock.apiBase }]));
+            return { GIT_HOSTS_FILE: hostsFile };
+        });
+    });
+
+    after(async () => {
+        await server?.stop();
+        mock?.close();
+    });
+
+    const postReview = (fields) => fetch(`${server.baseUrl}/api/git/pull-review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Origin: ORIGIN },
+        body: JSON.stringify({
+            repoUrl: REPO_URL,
+            number: 7,
+            commit: HEAD_COMMIT,
+            path: 'app.js',
+            code,
+            summary: 'Looks fine.',
+            findings: [finding({ title: 'In the hunk', startLine: 2, endLine: 3 }), finding({ title: 'Outside', startLine: 10, endLine: 10 })],
+            ...fields,
+        }),
+    });
+
+    test('a dry run shows the comments without posting them', async () => {
+        const response = await postReview({ dryRun: true });
+        assert.equal(response.status, 200);
+        const { dryRun, review, skipped, posted } = await response.json();
+        assert.equal(dryRun, true);
+        assert.equal(posted, null);
+        assert.deepEqual(review.comments.map(comment => [comment.startLine, comment.line]), [[2, 3]]);
+        assert.deepEqual(skipped.map(item => item.title), ['Outside']);
+        assert.deepEqual(mock.posted, []);
+    });
+
+    test('posts the comments as a review of the head commit', async () => {
+        const response = await postReview({});
+        assert.equal(response.status, 200);
+        const { posted } = await response.json();
+        assert.deepEqual(posted, { id: 1, url: 'https://github.test/owner/repo/pull/7#review-1' });
+        assert.equal(mock.posted.length, 1);
+        const [review] = mock.posted;
+        assert.equal(review.commit_id, HEAD_COMMIT);
+        assert.equal(review.event, 'COMMENT');
+        assert.deepEqual(review.comments.map(({ path, start_line, line, side }) => ({ path, start_line, line, side })), [
+            { path: 'app.js', start_line: 2, line: 3, side: 'RIGHT' },
+        ]);
+    });
+
+    test('does not post the same findings twice', async () => {
+        const response = await postReview({});
+        const { posted, skipped } = await response.json();
+        assert.equal(posted, null);
+        assert.ok(skipped.some(item => item.title === 'In the hunk' && item.reason === 'already posted'));
+        assert.equal(mock.posted.length, 1);
+    });
+
+    test('refuses a review of an older commit', async () => {
+        const response = await postReview({ commit: 'c'.repeat(40) });
+        assert.equal(response.status, 409);
+    });
+
+    test('rejects a file the pull request does not change', async () => {
+        const response = await postReview({ path: 'other.js', dryRun: true });
+        assert.equal(response.status, 400);
+    });
+});
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeRepoRules, findForbiddenPatterns } from '../server/repoRules.js';
+
+const withPattern = (pattern) => ({ forbiddenPatterns: [{ pattern }] });
+
+test('rejects patterns that can backtrack catastrophically', () => {
+    for (const pattern of ['(a+)+', '(a|ab)*', '(x)\\1', 'a*a*a*a*a*a*a*!', '\\w+\\d*x', 'a*b?a*c', '.*foo.*bar']) {
+        assert.throws(() => normalizeRepoRules(withPattern(pattern)), /could take very long to match/, pattern);
+    }
+});
+
+test('accepts common patterns', () => {
+    for (const pattern of ['console\\.log', '.*foo.*', '\\w*-\\w*', '[a-z]+\\d+', '(?:foo|bar)\\s*=', '^\\s*//.*$']) {
+        assert.doesNotThrow(() => normalizeRepoRules(withPattern(pattern)), pattern);
+    }
+});
+
+test('reports the lines that match a forbidden pattern', async () => {
+    const rules = normalizeRepoRules({ forbiddenPatterns: [{ pattern: 'console\\.log', paths: ['src/'] }] });
+    const code = 'const a = 1;\nconsole.log(a);\n';
+    const findings = await findForbiddenPatterns(code, 'src/app.js', rules);
+    assert.deepEqual(findings.map(finding => [finding.startLine, finding.title]), [[2, 'Forbidden pattern /console\\.log/']]);
+    assert.deepEqual(await findForbiddenPatterns(code, 'test/app.test.js', rules), []);
+});
+
+test('stops matching a pattern that backtracks for too long', async () => {
+    const started = Date.now();
+    await assert.rejects(
+        findForbiddenPatterns('a'.repeat(120), 'app.js', withPattern('a*a*a*a*a*a*a*!'), { timeoutMs: 500 }),
+        /took longer than 500 ms/,
+    );
+    assert.ok(Date.now() - started < 5000);
+});
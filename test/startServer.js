@@ -0,0 +1,57 @@
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { once } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Starts server.js on a free port with the fake provider, authentication off and its job store in a temporary
+// directory. `env(dataDir)` returns settings that add to or override those, and may write files into that
+// directory for them to point at. Resolves to { baseUrl, stop } once the server listens.
+
+export const ORIGIN = 'http://localhost:3000';
+
+const findFreePort = async () => {
+    const probe = createServer().listen(0);
+    await once(probe, 'listening');
+    const { port } = probe.address();
+    probe.close();
+    await once(probe, 'close');
+    return port;
+};
+
+export const startServer = async (env = () => ({})) => {
+    const port = await findFreePort();
+    const dataDir = await mkdtemp(join(tmpdir(), 'code-reviewer-test-'));
+    const server = spawn(process.execPath, ['server.js'], {
+        cwd: new URL('..', import.meta.url),
+        env: {
+            ...process.env,
+            PORT: String(port),
+            LLM_PROVIDER: 'fake',
+            API_KEYS: '',
+            ALLOWED_ORIGINS: ORIGIN,
+            JOBS_FILE: join(dataDir, 'jobs.json'),
+            ...(await env(dataDir)),
+        },
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const stop = async () => {
+        if (server.exitCode === null) {
+            server.kill();
+            await once(server, 'exit');
+        }
+        await rm(dataDir, { recursive: true, force: true });
+    };
+
+    let output = '';
+    for await (const chunk of server.stdout) {
+        output += chunk;
+        if (output.includes('Server listening')) break;
+    }
+    if (!output.includes('Server listening')) {
+        await stop();
+        throw new Error(`The server did not start:\n${output}`);
+    }
+    return { baseUrl: `http://localhost:${port}`, stop };
+};
@@ -18,12 +18,75 @@ export type RepoTreeNode = RepoTreeFile | RepoTreeFolder;
 export interface RepoFileWithContent {
     path: string;
     content: string;
-    error?: string;
+    error?: string; // Why the file cannot be reviewed (a failed download, or a binary, Git LFS or oversized file)
+    // Set for pull request reviews: the file before the pull request ('' for added files) and its unified diff.
+    baseContent?: string;
+    patch?: string;
+}
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+export type FindingCategory = 'bug' | 'security' | 'performance' | 'style' | 'maintainability' | 'other';
+
+// A single issue reported by the model. Line numbers are 1-based and refer to the original code.
+export interface ReviewFinding {
+  severity: FindingSeverity;
+  category: FindingCategory;
+  startLine: number;
+  endLine: number;
+  title: string;
+  explanation: string; // Markdown
+  suggestedReplacement?: string;
+}
+
+// Validated against REVIEW_RESULT_SCHEMA in server/reviewSchema.js before it reaches the client.
+// Which prompt template and review profile produced a review
+export interface ReviewPromptInfo {
+  id: string;
+  version: number;
+  profile: string;
 }
 
 export interface ReviewResult {
-  reviewComments: string;
+  reviewComments: string; // Markdown summary of the review
+  findings: ReviewFinding[];
   correctedCode: string;
+  prompt?: ReviewPromptInfo; // Missing on reviews stored before prompts were versioned
+}
+
+// A forbidden pattern from the repository's review rules
+export interface ForbiddenPattern {
+  pattern: string; // JavaScript regular expression, matched per line
+  message?: string;
+  severity?: FindingSeverity;
+  category?: FindingCategory;
+  paths?: string[]; // Globs limiting the pattern to some files
+}
+
+// Review rules from the reviewed repository's .codereview.yml, with defaults filled in by the server
+export interface RepoRules {
+  conventions: string[];
+  ignore: string[]; // Globs left out of file discovery and analyses
+  severityOverrides: Partial<Record<FindingCategory, FindingSeverity>>;
+  reviewInstructions: string;
+  analysisInstructions: string;
+  forbiddenPatterns: ForbiddenPattern[];
+}
+
+// Response of /api/repo-rules; `source` is the rules file name, null when the repository has none
+export interface RepoRulesInfo {
+  source: string | null;
+  rules: RepoRules | null;
+  error?: string; // Set when the rules file could not be loaded
+}
+
+// A review profile from config/review-profiles.json
+export interface ReviewProfile {
+  id: string;
+  title: string;
+  description?: string;
+  focus: string;
+  instructions?: string;
+  promptVersion?: number;
 }
 
 // --- Holistic Analysis Types ---
@@ -44,6 +107,32 @@ export interface DependencyReview {
   suggestions: string[];
 }
 
+// Structured output of an analysis task, tagged so the UI knows how to render it.
+export type AnalysisTaskResult =
+  | { kind: 'dependency_review', data: DependencyReview }
+  | { kind: 'error_trends', data: ErrorTrend[] }
+  | { kind: 'suggested_fixes', data: SuggestedFix[] };
+
+// "markdown" tasks stream free-form text; the others return an AnalysisTaskResult of that kind.
+export type AnalysisOutputType = 'markdown' | AnalysisTaskResult['kind'];
+
+// An analysis task as configured on the server (one JSON file per task in ANALYSIS_TASKS_DIR).
+// The server's limits on an analysis (GET /api/analysis-tasks): files beyond `maxFiles` are not analyzed, and files
+// above `maxFileBytes` (0 for no ceiling) are skipped.
+export interface AnalysisLimits {
+    maxFiles: number;
+    maxFileBytes: number;
+}
+
+export interface AnalysisTaskDefinition {
+    id: string;
+    title: string;
+    description?: string;
+    prompt: string; // Template; {{repo}} and {{context}} are filled in by the server
+    outputType: AnalysisOutputType;
+    enabledByDefault: boolean;
+}
+
 // Represents the state of a single step in the holistic analysis
 export interface AnalysisTask {
     id: string;
@@ -51,30 +140,215 @@ export interface AnalysisTask {
     status: 'pending' | 'in_progress' | 'complete' | 'error';
     content: string; // The streamed markdown content
     error: string | null;
-    // We can store structured data here later if needed
-    result?: DependencyReview | ErrorTrend[] | SuggestedFix[];
+    result?: AnalysisTaskResult; // Only set for tasks with a structured output type
+}
+
+// How much of the repository the analysis tasks actually saw.
+// 'full': every file verbatim; 'map_reduce': per-directory digests; 'truncated': only the first files that fit.
+export interface AnalysisCoverage {
+    mode: 'full' | 'map_reduce' | 'truncated';
+    filesIncluded: number;
+    filesSkipped: { path: string; reason: string }[];
+    batches?: number; // Number of digests, map_reduce only
+    redactions?: { path: string; line: number; title: string }[]; // Secrets replaced before prompting
 }
 
 // --- Component State Types ---
 
-export type ReviewStatus = 'idle' | 'streaming' | 'complete' | 'error';
+export type ReviewStatus = 'idle' | 'streaming' | 'complete' | 'error' | 'cancelled';
 export type LintingStatus = 'idle' | 'linting' | 'complete' | 'error';
 
 export interface ReviewState {
   status: ReviewStatus;
   lintingStatus: LintingStatus;
-  streamedComments: string;
+  streamedResponse: string; // Raw model output received so far, before validation
+  statusMessage?: string; // Latest server notice while streaming, e.g. a retry
   result: ReviewResult | null;
   error: string | null;
 }
 
 // --- Server Communication Types ---
 
+// Events streamed by /api/review
+export type ReviewStreamEvent =
+    | { type: 'system', message: string }
+    | { type: 'chunk', chunk: string }
+    | { type: 'result', result: ReviewResult }
+    | { type: 'error', message: string };
+
+// Events of POST /api/release-summary: the markdown report arrives in chunks.
+export type ReleaseSummaryStreamEvent =
+    | { type: 'system', message: string }
+    | { type: 'chunk', chunk: string }
+    | { type: 'error', message: string };
+
 // Type for streaming analysis updates from the server, now task-based
 export type RepoAnalysisStreamEvent = 
     | { type: 'system', message: string }
+    | { type: 'source', source: RepoSource }
     | { type: 'processing_file', path: string, content: string }
+    | { type: 'coverage', coverage: AnalysisCoverage }
+    | { type: 'task_queued', id: string, title: string }
     | { type: 'task_start', id: string, title: string }
     | { type: 'task_chunk', id: string, chunk: string }
+    | { type: 'task_result', id: string, result: AnalysisTaskResult }
     | { type: 'task_end', id: string, error?: string }
     | { type: 'error', message: string };
+
+// Control events of a job's event stream. They are consumed by followJobEvents and never reach the UI.
+export type JobStreamControlEvent =
+    | { type: 'session', jobId: string }
+    | { type: 'done' };
+
+// --- Jobs ---
+
+export type JobKind = 'analysis' | 'review';
+// 'interrupted': the server restarted while the job was running.
+export type JobStatus = 'running' | 'complete' | 'error' | 'cancelled' | 'interrupted';
+
+export interface JobSummary {
+    id: string;
+    kind: JobKind;
+    title: string;
+    status: JobStatus;
+    createdAt: string; // ISO timestamp
+    updatedAt: string;
+    error: string | null;
+    repoUrl?: string | null; // Analysis jobs
+    fileName?: string; // Review jobs
+}
+
+// A job with its result folded from the event log, as returned by GET /api/jobs/:id. A review's code is only kept
+// while the job runs. Once it finished, secrets in the result are redacted.
+export type JobDetails =
+    | JobSummary & { kind: 'analysis', result: { source: RepoSource | null, coverage: AnalysisCoverage | null, tasks: AnalysisTask[] } }
+    | JobSummary & { kind: 'review', code?: string, result: ReviewResult | null };
+
+// --- Sessions ---
+
+// Daily token budget of the signed-in client. `limit` and `remaining` are null when there is no budget.
+export interface TokenUsage {
+    used: number;
+    limit: number | null;
+    remaining: number | null;
+}
+
+// Returned by GET /api/session.
+export interface ApiSession {
+    authRequired: boolean;
+    authenticated: boolean;
+    client: string | null; // Name of the API key; null when authentication is off
+    usage: TokenUsage | null;
+}
+
+export type GitProviderId = 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+// A Git host the backend accepts repository URLs from (GET /api/git/hosts). See utils/repoUrl.js.
+export interface GitHost {
+    host: string; // e.g. "github.com" or "gitlab.example.com"
+    provider: GitProviderId;
+    label: string;
+}
+
+// Returned by /api/git/token. 'session': a token the user stored; 'server': the server's token for the host
+// (e.g. GITHUB_TOKEN); null: no token.
+export interface GitTokenStatus {
+    host: string;
+    source: 'session' | 'server' | null;
+    login: string | null; // Account name of a session token on the host
+}
+
+// A Git host's request budget as the backend reports it with its /api/git responses (X-RateLimit-* headers).
+// Times are epoch milliseconds.
+export interface GitRateLimit {
+    host: string;
+    limit: number | null; // Requests per window; null when the host does not say
+    remaining: number;
+    resetAt: number; // When the window ends and `remaining` is back at `limit`
+    pausedUntil: number | null; // Set while file discovery waits for the reset
+}
+
+// A repository URL resolved against the known hosts (parseRepoUrl in utils/repoUrl.js).
+export interface RepoLocation extends GitHost {
+    owner: string; // User, organization or workspace; a GitLab group path may contain slashes
+    repo: string;
+    refPath: string | null; // "<ref>/<path>" of a /tree/<ref>/<path> URL; see splitRefPath
+    pullNumber: number | null; // Number of a pull (or merge) request URL such as /pull/42
+}
+
+// Every file of a repository at a ref (GET /api/git/tree). `truncated`: the host cut the listing short.
+export interface RepoFileListing {
+    files: { path: string; size?: number; sha?: string }[];
+    truncated: boolean;
+}
+
+// Branches and tags of a repository for the ref picker (GET /api/git/refs). Only the first 100 of each are listed.
+export interface RepoRefs {
+    defaultBranch: string;
+    branches: string[];
+    tags: string[];
+}
+
+// The revision a review or analysis read: the chosen ref (null for the default branch) and the commit it resolved to.
+export interface RepoSource {
+    ref: string | null;
+    commit: string;
+}
+
+// A pull request (a merge request on GitLab) as returned by GET /api/git/pull, with its unified diff
+// (GET /api/git/pull-diff) split per file.
+export interface PullRequest {
+    number: number;
+    title: string;
+    url: string; // Web page of the pull request
+    baseRef: string; // Branch the pull request merges into
+    headRef: string; // Branch with the changes
+    baseCommit: string;
+    headCommit: string;
+    files: PullRequestFile[];
+}
+
+// One file of a pull request (or comparison) diff; see splitUnifiedDiff in utils/unifiedDiff.js.
+export interface PullRequestFile {
+    path: string; // Path at the head commit (the old path for deleted files)
+    previousPath: string | null; // Path at the base commit of a renamed file
+    status: 'added' | 'modified' | 'deleted' | 'renamed';
+    binary: boolean;
+    patch: string; // The file's part of the unified diff
+}
+
+// A commit between two compared refs.
+export interface CommitInfo {
+    sha: string;
+    message: string;
+    author: string | null;
+    date: string | null; // ISO 8601
+}
+
+// Two refs compared the way a pull request from `head` into `base` would be (GET /api/git/compare), with the diff
+// split per file.
+export interface Comparison {
+    base: string;
+    head: string | null; // null for the default branch
+    baseCommit: string; // Merge base of the two refs, where the diff starts
+    headCommit: string;
+    commits: CommitInfo[]; // Oldest first, at most 250
+    totalCommits: number | null; // null when the host does not count them
+    files: PullRequestFile[];
+}
+
+// A review of one pull request file as built (and, unless it is a dry run, posted) by POST /api/git/pull-review.
+// Comments cover the lines startLine..line of the file at the head commit.
+export interface PullRequestReviewComment {
+    path: string;
+    startLine: number;
+    line: number;
+    body: string; // Markdown, ending with the hidden marker that keeps the finding from being posted twice
+}
+
+export interface PullRequestReviewResult {
+    dryRun: boolean;
+    review: { commit: string; body: string; comments: PullRequestReviewComment[] };
+    skipped: { title: string; startLine: number; endLine: number; reason: string }[]; // Findings without a comment
+    posted: { id: number; url: string } | null; // null for dry runs and when there was nothing new to post
+}
@@ -1 +1,4 @@
-export const CODE_SEPARATOR = '<<CODE_SEPARATOR>>';
\ No newline at end of file
+import type { FindingSeverity } from '../types';
+
+// Ordered from most to least severe. Must match FINDING_SEVERITIES in server/reviewSchema.js.
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
\ No newline at end of file
@@ -0,0 +1,46 @@
+// Glob matching for repository paths, used by the browser client (file discovery) and server.js (analysis).
+// Plain JavaScript so Node can import it without a build step.
+//
+// The syntax is a subset of .gitignore: `*` matches within one path segment, `**` across segments and `?` one
+// character. A pattern without a slash (other than a trailing one) matches a file or directory name at any
+// depth; otherwise it is anchored at the repository root. A pattern matching a directory also matches
+// everything below it. Negation (`!pattern`) is not supported.
+
+const escapeRegExp = (text) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+const globToRegExpSource = (glob) => {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` matches zero or more directories; any other `**` matches everything.
+            const slash = glob[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return source;
+};
+
+/**
+ * Compiles glob patterns into a predicate over repository paths (without a leading slash).
+ * @param {string[]} patterns
+ * @returns {(path: string) => boolean}
+ */
+export const compilePathPatterns = (patterns) => {
+    const regExps = patterns
+        .map(pattern => pattern.trim())
+        .filter(Boolean)
+        .map(pattern => {
+            const anchored = pattern.startsWith('/') || pattern.replace(/\/$/, '').includes('/');
+            const glob = pattern.replace(/^\//, '').replace(/\/$/, '');
+            return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExpSource(glob)}(?:/.*)?$`);
+        });
+    return (path) => regExps.some(regExp => regExp.test(path));
+};
@@ -0,0 +1,140 @@
+// Parsing of repository URLs for the supported Git hosts, shared by the browser client and server.js.
+// Plain JavaScript (with JSDoc types) so Node can import it without a build step.
+//
+// The provider is chosen by host name: the public hosts below are built in, and self-hosted ones (GitHub
+// Enterprise, GitLab, Gitea) are configured on the server and listed by GET /api/git/hosts.
+
+/**
+ * @typedef {'github' | 'gitlab' | 'gitea' | 'bitbucket'} GitProviderId
+ */
+
+/**
+ * @typedef {Object} GitHost
+ * @property {string} host          Host name as it appears in repository URLs, e.g. "gitlab.example.com".
+ * @property {GitProviderId} provider
+ * @property {string} label         Name shown in the UI, e.g. "GitLab" or "Company GitLab".
+ */
+
+/**
+ * @typedef {Object} RepoLocation
+ * @property {string} host
+ * @property {GitProviderId} provider
+ * @property {string} label
+ * @property {string} owner         User, organization or workspace; a GitLab group path may contain slashes.
+ * @property {string} repo
+ * @property {string | null} refPath  What follows the ref marker of a /tree/<ref>/<path> style URL, e.g.
+ *                                    "feature/login/src"; null for plain repository URLs. See splitRefPath.
+ * @property {number | null} pullNumber  Number of the pull request (merge request on GitLab) of a pull request
+ *                                       URL such as /pull/42; null for other URLs.
+ */
+
+/** @type {GitHost[]} */
+export const BUILTIN_GIT_HOSTS = [
+    { host: 'github.com', provider: 'github', label: 'GitHub' },
+    { host: 'gitlab.com', provider: 'gitlab', label: 'GitLab' },
+    { host: 'gitea.com', provider: 'gitea', label: 'Gitea' },
+    { host: 'codeberg.org', provider: 'gitea', label: 'Codeberg' },
+    { host: 'bitbucket.org', provider: 'bitbucket', label: 'Bitbucket' },
+];
+
+// Path segments that introduce a ref in browse URLs, per provider. The ref and the path inside the repository
+// follow them.
+const REF_MARKERS = {
+    github: [['tree'], ['blob'], ['commit']],
+    gitlab: [['tree'], ['blob'], ['commit']], // After the "/-/" separator
+    gitea: [['src', 'branch'], ['src', 'tag'], ['src', 'commit'], ['commit']],
+    bitbucket: [['src'], ['branch'], ['commits']],
+};
+
+// Path segment that introduces a pull request number, per provider.
+const PULL_MARKERS = {
+    github: 'pull',
+    gitlab: 'merge_requests', // After the "/-/" separator
+    gitea: 'pulls',
+    bitbucket: 'pull-requests',
+};
+
+const readPullNumber = (provider, segments) => {
+    if (segments[0] !== PULL_MARKERS[provider] || !/^[1-9]\d*$/.test(segments[1] ?? '')) return null;
+    return Number(segments[1]);
+};
+
+const readRefPath = (provider, segments) => {
+    const marker = REF_MARKERS[provider].find(candidate => candidate.every((segment, index) => segments[index] === segment));
+    if (!marker || segments.length === marker.length) return null;
+    return segments.slice(marker.length).join('/');
+};
+
+/**
+ * Parses "https://<host>/<owner>/<repo>" (optionally followed by /tree/..., /-/tree/..., /src/... and so on)
+ * into the repository's location, keeping what follows a ref marker as `refPath` and the number of a pull
+ * request URL (/pull/42, /-/merge_requests/42, /pulls/42, /pull-requests/42) as `pullNumber`. GitLab projects may sit in nested groups, so for GitLab everything up to
+ * the "/-/" separator is the project path. Returns null for unknown hosts and malformed URLs.
+ * @param {string} url
+ * @param {GitHost[]} [hosts]  Known hosts; defaults to the built-in ones.
+ * @returns {RepoLocation | null}
+ */
+export const parseRepoUrl = (url, hosts = BUILTIN_GIT_HOSTS) => {
+    let urlObj;
+    try {
+        urlObj = new URL(url);
+    } catch {
+        return null;
+    }
+    const known = hosts.find(entry => entry.host === urlObj.host.toLowerCase());
+    if (!known) return null;
+
+    let segments;
+    try {
+        segments = urlObj.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+        return null;
+    }
+    let parts = segments;
+    let rest = [];
+    if (known.provider === 'gitlab') {
+        const separator = segments.indexOf('-');
+        if (separator !== -1) {
+            parts = segments.slice(0, separator);
+            rest = segments.slice(separator + 1);
+        }
+    } else {
+        parts = segments.slice(0, 2);
+        rest = segments.slice(2);
+    }
+    if (parts.length < 2) return null;
+    const repo = parts.at(-1).replace(/\.git$/, '');
+    if (!repo) return null;
+    return {
+        host: known.host,
+        provider: known.provider,
+        label: known.label,
+        owner: parts.slice(0, -1).join('/'),
+        repo,
+        refPath: readRefPath(known.provider, rest),
+        pullNumber: readPullNumber(known.provider, rest),
+    };
+};
+
+/**
+ * Splits a `refPath` into the ref and the path inside the repository. Ref names may contain slashes
+ * ("feature/login"), so the longest of `refNames` (the repository's branches and tags) that the path starts
+ * with wins; when none matches, the first segment is taken, which covers commit SHAs.
+ * @param {string} refPath
+ * @param {string[]} refNames
+ * @returns {{ ref: string, path: string }}
+ */
+export const splitRefPath = (refPath, refNames) => {
+    const match = refNames
+        .filter(name => refPath === name || refPath.startsWith(`${name}/`))
+        .reduce((longest, name) => (longest && longest.length >= name.length ? longest : name), null);
+    const ref = match ?? refPath.split('/')[0];
+    return { ref, path: refPath.slice(ref.length + 1) };
+};
+
+/**
+ * Whether `ref` is a full commit SHA (SHA-1 or SHA-256 object name), which needs no resolving and never moves.
+ * @param {unknown} ref
+ * @returns {ref is string}
+ */
+export const isCommitSha = (ref) => typeof ref === 'string' && /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/i.test(ref);
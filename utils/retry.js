@@ -0,0 +1,147 @@
+// Shared retry policy for model and GitHub calls, used by both the browser client and server.js.
+// Plain JavaScript (with JSDoc types) so Node can import it without a build step.
+
+/**
+ * @typedef {Object} RetryPolicy
+ * @property {number} maxAttempts   Total attempts including the first one.
+ * @property {number} baseDelayMs   Delay before the second attempt; doubles for every further attempt.
+ * @property {number} maxDelayMs    Upper bound for a single wait, including waits requested by the server.
+ */
+
+/**
+ * @typedef {Object} RetryInfo
+ * @property {number} attempt       The attempt about to be made (2 for the first retry).
+ * @property {number} maxAttempts
+ * @property {number} delayMs
+ * @property {unknown} error        The error that triggered the retry.
+ */
+
+/** @type {RetryPolicy} */
+export const DEFAULT_RETRY_POLICY = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+/**
+ * Error carrying the HTTP status and any server-requested wait, so the retry policy can classify it.
+ */
+export class HttpStatusError extends Error {
+    /**
+     * @param {string} message
+     * @param {number} status
+     * @param {number | null} [retryAfterMs]
+     */
+    constructor(message, status, retryAfterMs = null) {
+        super(message);
+        this.name = 'HttpStatusError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Reads how long the server asked us to wait, from `Retry-After` (seconds or HTTP date) or, when the
+ * GitHub rate limit is exhausted, from `X-RateLimit-Reset` (epoch seconds). Returns null if neither is set.
+ * @param {{ get(name: string): string | null }} headers
+ * @returns {number | null}
+ */
+export const getRetryAfterMs = (headers) => {
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    const reset = headers.get('x-ratelimit-reset');
+    if (reset && headers.get('x-ratelimit-remaining') === '0') {
+        return Math.max(0, Number(reset) * 1000 - Date.now());
+    }
+    return null;
+};
+
+/**
+ * True when the response is GitHub telling us the (primary or secondary) rate limit is exhausted.
+ * @param {{ status: number, headers: { get(name: string): string | null } }} response
+ */
+export const isRateLimitResponse = (response) =>
+    response.status === 429 ||
+    (response.status === 403 && (response.headers.get('x-ratelimit-remaining') === '0' || response.headers.get('retry-after') !== null));
+
+/**
+ * Transient failures worth retrying: rate limits, 5xx, request timeouts and network errors.
+ * @param {unknown} error
+ */
+export const isRetryableError = (error) => {
+    if (!(error instanceof Error)) return false;
+    const status = /** @type {any} */ (error).status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500 || /** @type {any} */ (error).retryAfterMs != null;
+    }
+    // fetch() rejects with a TypeError on network failures; AbortSignal.timeout() surfaces as TimeoutError.
+    // Other aborts (AbortError) are deliberate cancellations and never retried.
+    return error instanceof TypeError || error.name === 'TimeoutError';
+};
+
+/**
+ * Exponential backoff with jitter (50-100% of the nominal delay), or the server-requested wait if given.
+ * @param {number} attempt The attempt about to be made (2 for the first retry).
+ * @param {RetryPolicy} policy
+ * @param {unknown} error
+ */
+export const getRetryDelayMs = (attempt, policy, error) => {
+    const requested = /** @type {any} */ (error)?.retryAfterMs;
+    if (typeof requested === 'number') return Math.min(requested, policy.maxDelayMs);
+    const nominal = Math.min(policy.baseDelayMs * 2 ** (attempt - 2), policy.maxDelayMs);
+    return Math.round(nominal / 2 + Math.random() * nominal / 2);
+};
+
+/**
+ * @param {number} ms
+ * @param {AbortSignal} [signal]
+ * @returns {Promise<void>}
+ */
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation` until it succeeds, fails with a non-retryable error, or the attempt budget is spent.
+ * A server-requested wait longer than `maxDelayMs` is not worth blocking on and fails immediately.
+ * @template T
+ * @param {(attempt: number) => Promise<T>} operation
+ * @param {{ policy?: RetryPolicy, signal?: AbortSignal, onRetry?: (info: RetryInfo) => void, shouldRetry?: (error: unknown) => boolean }} [options]
+ * @returns {Promise<T>}
+ */
+export const withRetry = async (operation, { policy = DEFAULT_RETRY_POLICY, signal, onRetry, shouldRetry = isRetryableError } = {}) => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            const requested = /** @type {any} */ (error)?.retryAfterMs;
+            const exceedsBudget = typeof requested === 'number' && requested > policy.maxDelayMs;
+            if (signal?.aborted || attempt >= policy.maxAttempts || exceedsBudget || !shouldRetry(error)) {
+                throw error;
+            }
+            const delayMs = getRetryDelayMs(attempt + 1, policy, error);
+            onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+/**
+ * Human-readable log line, e.g. `Retrying task "3. Architectural Review" in 8s (attempt 2/5): status 503`.
+ * @param {string} label
+ * @param {RetryInfo} info
+ */
+export const formatRetryMessage = (label, { attempt, maxAttempts, delayMs, error }) => {
+    const reason = error instanceof Error ? error.message : String(error);
+    return `Retrying ${label} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${maxAttempts}): ${reason}`;
+};
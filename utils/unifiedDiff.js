@@ -0,0 +1,146 @@
+// Parsing of the unified diffs the Git hosts return for pull requests (GET /api/git/pull-diff), used by the
+// browser client (to list and load the changed files) and server.js (to anchor review findings to the change).
+// Plain JavaScript (with JSDoc types) so Node can import it without a build step.
+//
+// The diffs are in `git diff` format: every file starts with a "diff --git a/<path> b/<path>" line, followed by
+// extended headers (new/deleted file mode, rename from/to, "Binary files ... differ"), the ---/+++ lines and
+// the hunks.
+
+/**
+ * @typedef {Object} DiffFile
+ * @property {string} path                  Path at the head revision; the old path for deleted files.
+ * @property {string | null} previousPath   Path at the base revision of a renamed file.
+ * @property {'added' | 'modified' | 'deleted' | 'renamed'} status
+ * @property {boolean} binary               No hunks; the host only reports that the file changed.
+ * @property {string} patch                 The file's part of the diff, from its "diff --git" line on.
+ */
+
+// Reads the path of a ---/+++ line; null for /dev/null. Git quotes paths with unusual characters and other
+// tools append a tab and a timestamp.
+const readPatchPath = (text) => {
+    const path = text.replace(/\t.*$/, '').replace(/^"(.*)"$/, '$1');
+    return path === '/dev/null' ? null : path.replace(/^[ab]\//, '');
+};
+
+// Reads "a/<old> b/<new>" of a "diff --git" line. The halves are ambiguous when paths contain " b/", so equal
+// halves (the common case of a file that was not renamed) are preferred.
+const readGitHeaderPaths = (line) => {
+    const text = line.slice('diff --git '.length);
+    const half = (text.length - 1) / 2;
+    if (Number.isInteger(half) && text.slice(2, half) === text.slice(half + 3)) {
+        const path = text.slice(2, half);
+        return { oldPath: path, newPath: path };
+    }
+    const separator = text.lastIndexOf(' b/');
+    if (separator === -1) return { oldPath: null, newPath: null };
+    return { oldPath: readPatchPath(text.slice(0, separator)), newPath: readPatchPath(text.slice(separator + 1)) };
+};
+
+/**
+ * Splits a unified diff into its files.
+ * @param {string} diff
+ * @returns {DiffFile[]}
+ */
+export const splitUnifiedDiff = (diff) => {
+    const sections = [];
+    let current = null;
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            // `undefined` until a header names the path; null for /dev/null.
+            current = { lines: [], header: readGitHeaderPaths(line), oldPath: undefined, newPath: undefined, mode: null, binary: false, inHunks: false };
+            sections.push(current);
+        }
+        if (!current) continue;
+        current.lines.push(line);
+        // Hunk lines may look like headers ("--- " is a removed line starting with "-- "), so headers end at the first hunk.
+        if (line.startsWith('@@')) current.inHunks = true;
+        if (current.inHunks) continue;
+        if (line.startsWith('--- ')) current.oldPath = readPatchPath(line.slice(4));
+        else if (line.startsWith('+++ ')) current.newPath = readPatchPath(line.slice(4));
+        else if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+        else if (line.startsWith('rename to ')) current.newPath = line.slice('rename to '.length);
+        else if (line.startsWith('new file mode')) current.mode = 'added';
+        else if (line.startsWith('deleted file mode')) current.mode = 'deleted';
+        else if (line.startsWith('Binary files ') || line === 'GIT binary patch') current.binary = true;
+    }
+
+    return sections.map(section => {
+        const oldPath = section.oldPath === undefined ? section.header.oldPath : section.oldPath;
+        const newPath = section.newPath === undefined ? section.header.newPath : section.newPath;
+        let status = 'modified';
+        if (section.mode === 'added' || oldPath === null) status = 'added';
+        else if (section.mode === 'deleted' || newPath === null) status = 'deleted';
+        else if (oldPath !== newPath) status = 'renamed';
+        while (section.lines.at(-1) === '') section.lines.pop();
+        return {
+            path: status === 'deleted' ? oldPath : newPath,
+            previousPath: status === 'renamed' ? oldPath : null,
+            status,
+            binary: section.binary,
+            patch: section.lines.join('\n'),
+        };
+    });
+};
+
+/**
+ * Lines of the new file a patch changes, as sorted, inclusive [start, end] ranges of 1-based line numbers:
+ * every added line, plus the line that follows removed lines, so removals can be pointed at.
+ * @param {string} patch  One file's part of a unified diff.
+ * @returns {[number, number][]}
+ */
+export const changedLineRanges = (patch) => {
+    const ranges = [];
+    const mark = (line) => {
+        const last = ranges.at(-1);
+        if (last && line <= last[1] + 1) last[1] = Math.max(last[1], line);
+        else ranges.push([line, line]);
+    };
+    let line = null; // Next line of the new file; null before the first hunk
+    for (const text of patch.split('\n')) {
+        const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+        if (hunk) {
+            line = Number(hunk[1]);
+            // A hunk that only removes lines starts at the line before the removal ("+5,0").
+            if (/^@@ -\d+(?:,\d+)? \+\d+,0 @@/.test(text)) line += 1;
+            continue;
+        }
+        if (line === null) continue;
+        if (text.startsWith('+')) {
+            mark(line);
+            line += 1;
+        } else if (text.startsWith('-')) {
+            mark(Math.max(line, 1));
+        } else if (!text.startsWith('\\')) {
+            // A context line; some hosts strip the leading space of empty ones.
+            line += 1;
+        }
+    }
+    return ranges;
+};
+
+/**
+ * Lines of the new file the hunks of a patch show (changed lines and their context), as inclusive [start, end]
+ * ranges of 1-based line numbers. Pull request review comments can only be placed on these lines.
+ * @param {string} patch  One file's part of a unified diff.
+ * @returns {[number, number][]}
+ */
+export const hunkLineRanges = (patch) => {
+    const ranges = [];
+    for (const text of patch.split('\n')) {
+        const hunk = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+        if (!hunk) continue;
+        const start = Number(hunk[1]);
+        const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+        if (count > 0) ranges.push([start, start + count - 1]);
+    }
+    return ranges;
+};
+
+/**
+ * Whether the lines a finding refers to overlap the changed ranges of changedLineRanges.
+ * @param {{ startLine: number, endLine: number }} finding
+ * @param {[number, number][]} ranges
+ * @returns {boolean}
+ */
+export const touchesChangedLines = ({ startLine, endLine }, ranges) =>
+    ranges.some(([start, end]) => startLine <= end && endLine >= start);